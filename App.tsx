@@ -1,59 +1,198 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import Wardrobe from './components/Wardrobe';
 import StylistChat from './components/StylistChat';
 import Shopping from './components/Shopping';
+import OutfitGenerator from './components/OutfitGenerator';
+import OutfitPlanner from './components/OutfitPlanner';
 import OutfitCard from './components/OutfitCard';
-import { AppTab, ClothingItem, OutfitCardData } from './types';
-import { Shirt, Sparkles, ShoppingBag, Menu, X, Heart } from 'lucide-react';
+import BackupDialog from './components/BackupDialog';
+import { AppTab, BackupData, ChatMessage, ClothingItem, ConversationMemory, OutfitCardData, PlannedOutfit, WardrobeFilters, WearEvent, WeatherContext } from './types';
+import { createEmptyFilters } from './services/filterService';
+import { createWearEvent, lastWornDate, toDateKey } from './services/wearService';
+import { EMPTY_MEMORY } from './services/memoryService';
+import { pruneCache, wardrobeFingerprint } from './services/cacheService';
+import { createPlannedOutfit, settlePastPlans } from './services/planService';
+import { getWeather, setManualWeather } from './services/weatherService';
+import {
+  loadWardrobe,
+  loadWardrobeImages,
+  saveWardrobe,
+  loadFavorites,
+  saveFavorites,
+  loadConversation,
+  saveConversation,
+  loadWearEvents,
+  saveWearEvents,
+  loadMemory,
+  saveMemory,
+  loadPlannedOutfits,
+  savePlannedOutfits,
+  StorageQuotaError,
+} from './services/storageService';
+import { Shirt, Sparkles, ShoppingBag, Menu, X, Heart, AlertTriangle, Loader2, ArchiveRestore, CalendarHeart, CalendarDays } from 'lucide-react';
 
 const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState<AppTab>(AppTab.WARDROBE);
   
-  // WARDROBE STATE
-  const [wardrobe, setWardrobe] = useState<ClothingItem[]>(() => {
-    try {
-      const savedItems = localStorage.getItem("styleMate_wardrobe_v1");
-      if (!savedItems) return [];
-      const parsed = JSON.parse(savedItems);
-      if (!Array.isArray(parsed)) return [];
-      return parsed.map((item: any) => ({
-        ...item,
-        id: item.id || crypto.randomUUID(),
-        category: item.category || "Unknown",
-        color: item.color || "Unknown",
-        image: item.image || "",
-        season: Array.isArray(item.season) ? item.season : [],
-        style: Array.isArray(item.style) ? item.style : [],
-        description: item.description || ""
-      }));
-    } catch { return []; }
-  });
-
-  // FAVORITES STATE
-  const [favorites, setFavorites] = useState<OutfitCardData[]>(() => {
-    try {
-      const saved = localStorage.getItem("styleMate_favorites_v1");
-      return saved ? JSON.parse(saved) : [];
-    } catch { return []; }
-  });
+  // PERSISTED STATE (hydrated from IndexedDB)
+  const [wardrobe, setWardrobe] = useState<ClothingItem[]>([]);
+  const [favorites, setFavorites] = useState<OutfitCardData[]>([]);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [wearLog, setWearLog] = useState<WearEvent[]>([]);
+  const [memory, setMemory] = useState<ConversationMemory>(EMPTY_MEMORY);
+  const [plans, setPlans] = useState<PlannedOutfit[]>([]);
+  const [weather, setWeather] = useState<WeatherContext | null>(null);
+  const [today, setToday] = useState(toDateKey);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isStorageReady, setIsStorageReady] = useState(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
 
+  // Lives here so the wardrobe filters survive tab switches
+  const [wardrobeFilters, setWardrobeFilters] = useState<WardrobeFilters>(createEmptyFilters);
   const [shoppingQuery, setShoppingQuery] = useState('');
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const [isBackupOpen, setIsBackupOpen] = useState(false);
+
+  // Load metadata first so the UI can render, then hydrate photos.
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const [items, savedFavorites, savedMessages, savedWearLog, savedMemory, savedPlans] = await Promise.all([
+          loadWardrobe(),
+          loadFavorites(),
+          loadConversation(),
+          loadWearEvents(),
+          loadMemory(),
+          loadPlannedOutfits(),
+        ]);
+        if (cancelled) return;
+        setWardrobe(items);
+        setFavorites(savedFavorites);
+        setMessages(savedMessages);
+        setWearLog(savedWearLog);
+        if (savedMemory) setMemory(savedMemory);
+        setPlans(savedPlans);
+        setIsLoaded(true);
+
+        const images = await loadWardrobeImages();
+        if (cancelled) return;
+        setWardrobe(prev => prev.map(item => (item.image ? item : { ...item, image: images[item.id] || '' })));
+        setIsStorageReady(true);
+      } catch (error) {
+        console.error('Failed to load saved data', error);
+        if (cancelled) return;
+        setIsLoaded(true);
+        setStorageError("Couldn't load your saved wardrobe. Changes won't be saved until you reload the page.");
+      }
+    })();
+    return () => { cancelled = true; };
+  }, []);
+
+  // Today's weather, typed in or forecast; unknown is fine too
+  useEffect(() => {
+    let cancelled = false;
+    getWeather(today).then(weather => { if (!cancelled) setWeather(weather); });
+    return () => { cancelled = true; };
+  }, [today]);
 
   // Persistence
+  const handleStorageError = (error: unknown) => {
+    console.error('Failed to save', error);
+    setStorageError(
+      error instanceof StorageQuotaError
+        ? error.message
+        : "Couldn't save your latest changes. Please try again."
+    );
+  };
+
+  useEffect(() => {
+    if (!isStorageReady) return;
+    saveWardrobe(wardrobe).catch(handleStorageError);
+  }, [wardrobe, isStorageReady]);
+
+  // Cached answers about an older wardrobe can never be hit again
+  const fingerprint = useMemo(() => wardrobeFingerprint(wardrobe), [wardrobe]);
+  useEffect(() => {
+    if (!isStorageReady) return;
+    pruneCache(fingerprint).catch((error) => console.warn('Cache cleanup failed', error));
+  }, [fingerprint, isStorageReady]);
+
+  useEffect(() => {
+    if (!isStorageReady) return;
+    saveFavorites(favorites).catch(handleStorageError);
+  }, [favorites, isStorageReady]);
+
   useEffect(() => {
-    localStorage.setItem("styleMate_wardrobe_v1", JSON.stringify(wardrobe));
-  }, [wardrobe]);
+    if (!isStorageReady) return;
+    saveConversation(messages).catch(handleStorageError);
+  }, [messages, isStorageReady]);
 
   useEffect(() => {
-    localStorage.setItem("styleMate_favorites_v1", JSON.stringify(favorites));
-  }, [favorites]);
+    if (!isStorageReady) return;
+    saveWearEvents(wearLog).catch(handleStorageError);
+  }, [wearLog, isStorageReady]);
+
+  useEffect(() => {
+    if (!isStorageReady) return;
+    saveMemory(memory).catch(handleStorageError);
+  }, [memory, isStorageReady]);
+
+  useEffect(() => {
+    if (!isStorageReady) return;
+    savePlannedOutfits(plans).catch(handleStorageError);
+  }, [plans, isStorageReady]);
+
+  // Notice midnight passing while the app is open, or asleep in a background tab
+  useEffect(() => {
+    const refresh = () => setToday(toDateKey());
+    const timer = setInterval(refresh, 60_000);
+    window.addEventListener('focus', refresh);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('focus', refresh);
+    };
+  }, []);
+
+  // Planned days that have passed go into the wear history
+  useEffect(() => {
+    if (!isStorageReady) return;
+    const settled = settlePastPlans(plans, new Set(wardrobe.map(item => item.id)), today);
+    if (settled.plans === plans) return;
+    setPlans(settled.plans);
+    if (settled.events.length) setWearLog(prev => [...prev, ...settled.events]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [plans, isStorageReady, today]);
 
   // Handlers
   const handleAddItem = (item: ClothingItem) => setWardrobe(prev => [item, ...prev]);
   const handleRemoveItem = (id: string) => setWardrobe(prev => prev.filter(item => item.id !== id));
+  const handleUpdateItem = (updated: ClothingItem) =>
+    setWardrobe(prev => prev.map(item => (item.id === updated.id ? updated : item)));
+  // Merges into whatever the item is by then, for updates computed in the background
+  const handlePatchItem = (id: string, patch: Partial<ClothingItem>) =>
+    setWardrobe(prev => prev.map(item => (item.id === id ? { ...item, ...patch } : item)));
   
+  const handleLogWear = (itemIds: string[], outfitId?: string) => {
+    if (itemIds.length === 0) return;
+    setWearLog(prev => [...prev, createWearEvent(itemIds, outfitId)]);
+  };
+
+  const handleLogOutfitWear = (outfit: OutfitCardData) => {
+    const existingIds = outfit.selectedItemIds.filter(id => wardrobe.some(item => item.id === id));
+    handleLogWear(existingIds, outfit.id);
+  };
+
+  const handleImportBackup = (data: BackupData) => {
+    setWardrobe(data.wardrobe);
+    setFavorites(data.favorites);
+    setMessages(data.messages);
+    setWearLog(data.wearLog);
+    setPlans(data.plans);
+    if (data.memory) setMemory(data.memory);
+  };
+
   const handleToggleFavorite = (outfit: OutfitCardData) => {
     setFavorites(prev => {
       if (prev.some(f => f.id === outfit.id)) {
@@ -63,6 +202,33 @@ const App: React.FC = () => {
     });
   };
 
+  const handlePlanOutfit = (outfit: OutfitCardData, date: string, occasion: string) =>
+    setPlans(prev => [...prev, createPlannedOutfit(outfit, date, occasion)]);
+
+  const handleWeatherChange = async (manual: WeatherContext | null) => {
+    try {
+      await setManualWeather(manual);
+    } catch (error) {
+      handleStorageError(error);
+    }
+    setWeather(await getWeather(today));
+  };
+
+  // The Shop tab searches whatever it opens with
+  const handleFindMissingItems = (query: string) => {
+    setShoppingQuery(query);
+    setActiveTab(AppTab.SHOPPING);
+  };
+
+  // Every outfit the stylist has proposed, for the wardrobe analytics
+  const stylistOutfits = useMemo(
+    () => [
+      ...favorites,
+      ...messages.flatMap(m => m.data?.outfits || []),
+    ],
+    [favorites, messages]
+  );
+
   const NavButton = ({ tab, icon: Icon, label }: { tab: AppTab; icon: any; label: string }) => (
     <button
       onClick={() => { setActiveTab(tab); setIsMobileMenuOpen(false); }}
@@ -95,17 +261,32 @@ const App: React.FC = () => {
             <div className="hidden md:flex items-center gap-1">
               <NavButton tab={AppTab.WARDROBE} icon={Shirt} label="Wardrobe" />
               <NavButton tab={AppTab.STYLIST} icon={Sparkles} label="Stylist" />
+              <NavButton tab={AppTab.OCCASION} icon={CalendarHeart} label="Occasion" />
+              <NavButton tab={AppTab.PLANNER} icon={CalendarDays} label="Calendar" />
               <NavButton tab={AppTab.FAVORITES} icon={Heart} label="Favorites" />
               <NavButton tab={AppTab.SHOPPING} icon={ShoppingBag} label="Shop" />
             </div>
 
-            {/* Mobile Menu Button */}
-            <button
-              className="md:hidden p-2 text-stone-600 rounded-lg hover:bg-stone-100"
-              onClick={() => setIsMobileMenuOpen(!isMobileMenuOpen)}
-            >
-              {isMobileMenuOpen ? <X /> : <Menu />}
-            </button>
+            <div className="flex items-center gap-1">
+              {/* Backup (needs photos hydrated so nothing is left out) */}
+              {isStorageReady && (
+                <button
+                  className="p-2 text-stone-500 rounded-lg hover:bg-stone-100 hover:text-stone-900"
+                  onClick={() => setIsBackupOpen(true)}
+                  title="Backup & Restore"
+                >
+                  <ArchiveRestore className="w-5 h-5" />
+                </button>
+              )}
+
+              {/* Mobile Menu Button */}
+              <button
+                className="md:hidden p-2 text-stone-600 rounded-lg hover:bg-stone-100"
+                onClick={() => setIsMobileMenuOpen(!isMobileMenuOpen)}
+              >
+                {isMobileMenuOpen ? <X /> : <Menu />}
+              </button>
+            </div>
           </div>
         </div>
 
@@ -114,6 +295,8 @@ const App: React.FC = () => {
           <div className="md:hidden absolute top-16 left-0 w-full bg-white border-b border-stone-100 p-4 flex flex-col gap-2 shadow-xl animate-fade-in-down">
              <NavButton tab={AppTab.WARDROBE} icon={Shirt} label="Wardrobe" />
              <NavButton tab={AppTab.STYLIST} icon={Sparkles} label="Stylist" />
+             <NavButton tab={AppTab.OCCASION} icon={CalendarHeart} label="Occasion" />
+             <NavButton tab={AppTab.PLANNER} icon={CalendarDays} label="Calendar" />
              <NavButton tab={AppTab.FAVORITES} icon={Heart} label="Favorites" />
              <NavButton tab={AppTab.SHOPPING} icon={ShoppingBag} label="Shop" />
           </div>
@@ -122,23 +305,77 @@ const App: React.FC = () => {
 
       {/* Main Content */}
       <main className="pt-24 pb-12 px-4 md:px-6 max-w-7xl mx-auto min-h-screen">
-        {activeTab === AppTab.WARDROBE && (
+        {storageError && (
+          <div className="mb-6 flex items-start gap-3 bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-xl text-sm">
+            <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+            <p className="flex-1">{storageError}</p>
+            <button onClick={() => setStorageError(null)} className="text-amber-600 hover:text-amber-800" title="Dismiss">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
+        {!isLoaded && (
+          <div className="flex justify-center py-20 text-stone-400">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        )}
+
+        {isLoaded && activeTab === AppTab.WARDROBE && (
           <Wardrobe
             items={wardrobe}
             onAddItem={handleAddItem}
             onRemoveItem={handleRemoveItem}
+            onUpdateItem={handleUpdateItem}
+            onPatchItem={handlePatchItem}
+            filters={wardrobeFilters}
+            onFiltersChange={setWardrobeFilters}
+            wearLog={wearLog}
+            onLogWear={(id) => handleLogWear([id])}
+            stylistOutfits={stylistOutfits}
           />
         )}
         
-        {activeTab === AppTab.STYLIST && (
+        {isLoaded && activeTab === AppTab.STYLIST && (
           <StylistChat
             wardrobe={wardrobe}
+            messages={messages}
+            onMessagesChange={setMessages}
+            memory={memory}
+            onMemoryChange={setMemory}
             favorites={favorites}
             onToggleFavorite={handleToggleFavorite}
+            wearLog={wearLog}
+            onLogWear={handleLogOutfitWear}
+            weather={weather}
+            onWeatherChange={handleWeatherChange}
           />
         )}
 
-        {activeTab === AppTab.FAVORITES && (
+        {isLoaded && activeTab === AppTab.OCCASION && (
+          <OutfitGenerator
+            wardrobe={wardrobe}
+            onFindMissingItems={handleFindMissingItems}
+            wearLog={wearLog}
+            favorites={favorites}
+            onToggleFavorite={handleToggleFavorite}
+            onPlan={handlePlanOutfit}
+            weather={weather}
+            onWeatherChange={handleWeatherChange}
+          />
+        )}
+
+        {isLoaded && activeTab === AppTab.PLANNER && (
+          <OutfitPlanner
+            wardrobe={wardrobe}
+            favorites={favorites}
+            plans={plans}
+            onPlansChange={setPlans}
+            wearLog={wearLog}
+          />
+        )}
+
+        {isLoaded && activeTab === AppTab.FAVORITES && (
            <div className="max-w-4xl mx-auto animate-fade-in">
               <div className="text-center mb-8">
                 <h2 className="text-2xl font-bold text-stone-800">Your Favorite Looks</h2>
@@ -158,6 +395,8 @@ const App: React.FC = () => {
                       wardrobe={wardrobe} 
                       isFavorite={true}
                       onToggleFavorite={handleToggleFavorite}
+                      lastWorn={lastWornDate(wearLog, e => e.outfitId === fav.id)}
+                      onLogWear={handleLogOutfitWear}
                     />
                   ))}
                 </div>
@@ -165,10 +404,18 @@ const App: React.FC = () => {
            </div>
         )}
 
-        {activeTab === AppTab.SHOPPING && (
+        {isLoaded && activeTab === AppTab.SHOPPING && (
           <Shopping initialQuery={shoppingQuery} />
         )}
       </main>
+
+      {isBackupOpen && (
+        <BackupDialog
+          current={{ wardrobe, favorites, messages, wearLog, plans, memory }}
+          onImport={handleImportBackup}
+          onClose={() => setIsBackupOpen(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,141 @@
+import React, { useState, useRef } from 'react';
+import { BackupData, BackupImportMode, BackupImportReport } from '../types';
+import { exportBackup, readBackup, applyBackup, BackupError } from '../services/backupService';
+import { X, Download, Upload, Loader2, CheckCircle2, AlertTriangle } from 'lucide-react';
+
+interface BackupDialogProps {
+  current: BackupData;
+  onImport: (data: BackupData) => void;
+  onClose: () => void;
+}
+
+const BackupDialog: React.FC<BackupDialogProps> = ({ current, onImport, onClose }) => {
+  const [pending, setPending] = useState<{ data: BackupData; invalidSkipped: number; fileName: string } | null>(null);
+  const [report, setReport] = useState<BackupImportReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = () => {
+    const blob = exportBackup(current);
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `stylemate-backup-${new Date().toISOString().slice(0, 10)}.zip`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setIsReading(true);
+    setError(null);
+    setReport(null);
+    try {
+      const result = await readBackup(file);
+      setPending({ ...result, fileName: file.name });
+    } catch (err) {
+      console.error('Backup import failed', err);
+      setError(err instanceof BackupError ? err.message : "Couldn't read this backup file.");
+    } finally {
+      setIsReading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleApply = (mode: BackupImportMode) => {
+    if (!pending) return;
+    if (mode === 'replace' && !confirm('Replace your current wardrobe, favorites, chat, wear history and plans with this backup?')) return;
+    const result = applyBackup(current, pending.data, mode, pending.invalidSkipped);
+    onImport(result.data);
+    setReport(result.report);
+    setPending(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+      <div className="bg-white rounded-3xl shadow-xl w-full max-w-md" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center px-6 py-4 border-b border-stone-100">
+          <h3 className="text-lg font-bold text-stone-800">Backup & Restore</h3>
+          <button onClick={onClose} className="p-2 text-stone-400 hover:text-stone-600 rounded-lg">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {/* Export */}
+          <div>
+            <p className="text-sm text-stone-600 mb-3">
+              Download {current.wardrobe.length} items, {current.favorites.length} favorites and your chat history as a zip.
+            </p>
+            <button
+              onClick={handleExport}
+              className="w-full flex items-center justify-center gap-2 bg-stone-900 text-white py-3 rounded-xl text-sm font-medium hover:bg-stone-800"
+            >
+              <Download className="w-4 h-4" /> Export Backup
+            </button>
+          </div>
+
+          {/* Import */}
+          <div className="border-t border-stone-100 pt-6">
+            <input type="file" accept=".zip,application/zip" ref={fileInputRef} onChange={handleFile} className="hidden" />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isReading}
+              className="w-full flex items-center justify-center gap-2 border border-stone-200 text-stone-700 py-3 rounded-xl text-sm font-medium hover:bg-stone-50 disabled:opacity-50"
+            >
+              {isReading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+              Import Backup
+            </button>
+
+            {error && (
+              <div className="mt-3 flex items-start gap-2 text-sm text-red-600">
+                <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" /> {error}
+              </div>
+            )}
+
+            {pending && (
+              <div className="mt-4 p-4 bg-stone-50 rounded-xl border border-stone-100 space-y-3">
+                <p className="text-sm text-stone-700">
+                  <span className="font-medium">{pending.fileName}</span> contains {pending.data.wardrobe.length} items,{' '}
+                  {pending.data.favorites.length} favorites and {pending.data.messages.length} messages.
+                  {pending.invalidSkipped > 0 && ` ${pending.invalidSkipped} invalid records will be skipped.`}
+                </p>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleApply('merge')}
+                    className="flex-1 bg-stone-900 text-white py-2 rounded-lg text-sm hover:bg-stone-800"
+                  >
+                    Merge
+                  </button>
+                  <button
+                    onClick={() => handleApply('replace')}
+                    className="flex-1 border border-red-200 text-red-600 py-2 rounded-lg text-sm hover:bg-red-50"
+                  >
+                    Replace
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {report && (
+              <div className="mt-4 flex items-start gap-2 text-sm text-stone-600">
+                <CheckCircle2 className="w-4 h-4 mt-0.5 shrink-0 text-green-600" />
+                <p>
+                  Imported {report.added.items} items, {report.added.favorites} favorites, {report.added.messages} messages,
+                  {' '}{report.added.wearEvents} wear entries and {report.added.plans} planned outfits.
+                  {report.duplicatesSkipped > 0 && ` ${report.duplicatesSkipped} duplicates skipped.`}
+                  {report.idsReassigned > 0 && ` ${report.idsReassigned} conflicting IDs renamed.`}
+                  {report.invalidSkipped > 0 && ` ${report.invalidSkipped} invalid records ignored.`}
+                </p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackupDialog;
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { ClothingItem, DuplicateChoice } from '../types';
+import { Copy } from 'lucide-react';
+
+interface DuplicatePromptProps {
+  newImage: string;
+  fileName: string;
+  existing: ClothingItem;
+  remaining: number; // Files still to process after this one
+  onChoose: (choice: DuplicateChoice, applyToAll: boolean) => void;
+}
+
+const DuplicatePrompt: React.FC<DuplicatePromptProps> = ({ newImage, fileName, existing, remaining, onChoose }) => {
+  const [applyToAll, setApplyToAll] = useState(false);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4 animate-fade-in">
+      <div className="bg-white rounded-3xl shadow-xl w-full max-w-lg p-6 space-y-5">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-full bg-amber-50 text-amber-600 flex items-center justify-center">
+            <Copy className="w-5 h-5" />
+          </div>
+          <div>
+            <h3 className="font-bold text-stone-800">This looks like an item you already have</h3>
+            <p className="text-xs text-stone-500 truncate">{fileName}</p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <div className="aspect-square rounded-xl overflow-hidden bg-stone-50 border border-stone-100">
+              <img src={newImage} alt="New upload" className="w-full h-full object-cover" />
+            </div>
+            <p className="text-xs text-stone-500 mt-1 text-center">New photo</p>
+          </div>
+          <div>
+            <div className="aspect-square rounded-xl overflow-hidden bg-stone-50 border border-stone-100">
+              <img src={existing.thumbnail || existing.image} alt={existing.category} className="w-full h-full object-cover" />
+            </div>
+            <p className="text-xs text-stone-500 mt-1 text-center capitalize">
+              In wardrobe: {existing.color} {existing.category}
+            </p>
+          </div>
+        </div>
+
+        {remaining > 0 && (
+          <label className="flex items-center gap-2 text-sm text-stone-600">
+            <input type="checkbox" checked={applyToAll} onChange={(e) => setApplyToAll(e.target.checked)} />
+            Do the same for other duplicates in this upload
+          </label>
+        )}
+
+        <div className="grid grid-cols-3 gap-2">
+          <button
+            onClick={() => onChoose('skip', applyToAll)}
+            className="bg-stone-900 text-white py-2.5 rounded-xl text-sm font-medium hover:bg-stone-800"
+          >
+            Skip
+          </button>
+          <button
+            onClick={() => onChoose('keep', applyToAll)}
+            className="border border-stone-200 text-stone-700 py-2.5 rounded-xl text-sm hover:bg-stone-50"
+          >
+            Keep Both
+          </button>
+          <button
+            onClick={() => onChoose('replace', applyToAll)}
+            className="border border-stone-200 text-stone-700 py-2.5 rounded-xl text-sm hover:bg-stone-50"
+          >
+            Replace Photo
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicatePrompt;
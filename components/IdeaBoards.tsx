@@ -0,0 +1,81 @@
+import React from 'react';
+import { ClothingItem, StyleIdea } from '../types';
+import { Lightbulb } from 'lucide-react';
+
+interface IdeaBoardsProps {
+  ideas: StyleIdea[];
+  wardrobe: ClothingItem[];
+}
+
+const placeholderImage = (query = 'style') =>
+  `https://source.unsplash.com/featured/?${encodeURIComponent(query)}`;
+
+const IdeaBoards: React.FC<IdeaBoardsProps> = ({ ideas, wardrobe }) => {
+  if (ideas.length === 0) return null;
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mt-2">
+      {ideas.map((idea) => {
+        const owned = wardrobe.filter((item) => idea.wardrobeItemIds.includes(item.id));
+        return (
+          <div key={idea.id} className="bg-white rounded-xl border border-stone-200 shadow-sm overflow-hidden animate-fade-in">
+            {/* Mood strip */}
+            {idea.pinterestLooks.length > 0 && (
+              <div className="grid grid-cols-3 gap-0.5 bg-stone-100">
+                {idea.pinterestLooks.slice(0, 3).map((look, idx) => (
+                  <a key={idx} href={look.pinterestUrl} target="_blank" rel="noopener noreferrer" title={look.title}>
+                    <img
+                      src={look.previewImageUrl || placeholderImage(look.title)}
+                      alt={look.title}
+                      className="w-full h-20 object-cover hover:opacity-90"
+                      onError={(e) => {
+                        (e.currentTarget as HTMLImageElement).src = placeholderImage('style');
+                      }}
+                    />
+                  </a>
+                ))}
+              </div>
+            )}
+
+            <div className="p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <Lightbulb className="w-4 h-4 text-amber-500 shrink-0" />
+                <h4 className="text-sm font-semibold text-stone-800">{idea.title}</h4>
+              </div>
+              <p className="text-xs text-stone-600 leading-relaxed">{idea.description}</p>
+
+              {idea.keyPieces.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {idea.keyPieces.map((piece) => (
+                    <span key={piece} className="text-[10px] bg-stone-100 text-stone-600 px-2 py-0.5 rounded-full">
+                      {piece}
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              {owned.length > 0 && (
+                <div>
+                  <div className="text-[10px] text-stone-400 uppercase tracking-wide mb-1">Already in your wardrobe</div>
+                  <div className="flex gap-1.5">
+                    {owned.slice(0, 5).map((item) => (
+                      <img
+                        key={item.id}
+                        src={item.thumbnail || item.image}
+                        alt={`${item.color} ${item.category}`}
+                        title={`${item.color} ${item.category}`}
+                        className="w-10 h-10 rounded-md object-cover border border-stone-100"
+                      />
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default IdeaBoards;
@@ -0,0 +1,91 @@
+import React from 'react';
+import { IngestJob, IngestStatus } from '../types';
+import { AlertTriangle, Check, Clock, Copy, ImageOff, Loader2, Pencil, RotateCcw, X } from 'lucide-react';
+
+interface IngestQueueProps {
+  jobs: IngestJob[];
+  onRetry: (ids: string[]) => void;
+  onAddManually: (id: string) => void;
+  onDismiss: (ids: string[]) => void;
+}
+
+const STATUS_BADGES: Record<IngestStatus, { label: string; className: string; icon: React.ReactNode }> = {
+  pending: { label: 'Waiting', className: 'bg-stone-100 text-stone-600', icon: <Clock className="w-3 h-3" /> },
+  analyzing: { label: 'Analyzing', className: 'bg-blue-50 text-blue-600', icon: <Loader2 className="w-3 h-3 animate-spin" /> },
+  duplicate: { label: 'Duplicate?', className: 'bg-amber-50 text-amber-700', icon: <Copy className="w-3 h-3" /> },
+  done: { label: 'Added', className: 'bg-green-50 text-green-700', icon: <Check className="w-3 h-3" /> },
+  failed: { label: 'Failed', className: 'bg-red-50 text-red-600', icon: <AlertTriangle className="w-3 h-3" /> },
+};
+
+const IngestQueue: React.FC<IngestQueueProps> = ({ jobs, onRetry, onAddManually, onDismiss }) => {
+  const failed = jobs.filter(job => job.status === 'failed');
+  const finished = jobs.filter(job => job.status === 'done');
+
+  return (
+    <div className="bg-white rounded-2xl border border-stone-100 shadow-sm p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm font-medium text-stone-700">
+          Uploads · {finished.length} of {jobs.length} added
+          {failed.length > 0 && <span className="text-red-600"> · {failed.length} failed</span>}
+        </p>
+        <div className="flex gap-2">
+          {failed.length > 1 && (
+            <button
+              onClick={() => onRetry(failed.map(job => job.id))}
+              className="flex items-center gap-1.5 px-3 py-1.5 border border-stone-200 rounded-lg text-xs font-medium text-stone-600 hover:bg-stone-50"
+            >
+              <RotateCcw className="w-3.5 h-3.5" /> Retry all failed
+            </button>
+          )}
+          {finished.length > 0 && (
+            <button
+              onClick={() => onDismiss(finished.map(job => job.id))}
+              className="px-3 py-1.5 border border-stone-200 rounded-lg text-xs font-medium text-stone-600 hover:bg-stone-50"
+            >
+              Clear finished
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-4 sm:grid-cols-6 lg:grid-cols-8 gap-3">
+        {jobs.map(job => {
+          const badge = STATUS_BADGES[job.status];
+          return (
+            <div key={job.id} className="space-y-1" title={job.error ? `${job.fileName}: ${job.error}` : job.fileName}>
+              <div className="aspect-square relative rounded-xl overflow-hidden bg-stone-50 border border-stone-100">
+                {job.thumbnail ? (
+                  <img src={job.thumbnail} alt={job.fileName} className="w-full h-full object-cover" />
+                ) : (
+                  <div className="w-full h-full flex items-center justify-center text-stone-300">
+                    <ImageOff className="w-6 h-6" />
+                  </div>
+                )}
+                <span className={`absolute bottom-1 left-1 flex items-center gap-1 text-[10px] font-medium px-1.5 py-0.5 rounded-full ${badge.className}`}>
+                  {badge.icon} {badge.label}
+                </span>
+              </div>
+              {job.status === 'failed' && (
+                <div className="flex justify-center gap-1">
+                  <button onClick={() => onRetry([job.id])} className="p-1 text-stone-500 hover:text-stone-800" title="Retry">
+                    <RotateCcw className="w-3.5 h-3.5" />
+                  </button>
+                  {job.file && (
+                    <button onClick={() => onAddManually(job.id)} className="p-1 text-stone-500 hover:text-stone-800" title="Add manually">
+                      <Pencil className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                  <button onClick={() => onDismiss([job.id])} className="p-1 text-stone-500 hover:text-red-600" title="Dismiss">
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default IngestQueue;
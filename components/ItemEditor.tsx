@@ -0,0 +1,291 @@
+import React, { useState, useRef } from 'react';
+import { CategoryGroup, ClothingItem, EditableItemField, Formality } from '../types';
+import { analyzeClothingImage } from '../services/stylistProvider';
+import { describeAIError } from '../services/requestService';
+import { preprocessImage } from '../services/imageService';
+import { extractPalette } from '../services/colorService';
+import { hashDataUrl } from '../services/duplicateService';
+import {
+  CATEGORY_TREE,
+  CATEGORY_GROUP_LABELS,
+  CATEGORIES,
+  SEASONS,
+  STYLE_TAGS,
+  FORMALITY_LEVELS,
+  FORMALITY_LABELS,
+} from '../services/taxonomyService';
+import { X, Sparkles, ImagePlus, Loader2, Lock, Save } from 'lucide-react';
+
+interface ItemEditorProps {
+  item: ClothingItem;
+  onSave: (item: ClothingItem) => void;
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<EditableItemField, string> = {
+  category: 'Category',
+  color: 'Color',
+  season: 'Season',
+  style: 'Style',
+  formality: 'Formality',
+  description: 'Description',
+};
+
+const toggle = (list: string[], value: string) =>
+  list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+// Re-analysis only fills fields the user hasn't corrected by hand.
+const applyAnalysis = (item: ClothingItem, analysis: Partial<ClothingItem>): ClothingItem => {
+  const locked = new Set(item.editedFields || []);
+  return {
+    ...item,
+    category: !locked.has('category') && analysis.category ? analysis.category : item.category,
+    color: !locked.has('color') && analysis.color ? analysis.color : item.color,
+    season: !locked.has('season') && analysis.season ? analysis.season : item.season,
+    style: !locked.has('style') && analysis.style ? analysis.style : item.style,
+    formality: !locked.has('formality') && analysis.formality ? analysis.formality : item.formality,
+    description: !locked.has('description') && analysis.description ? analysis.description : item.description,
+  };
+};
+
+const ItemEditor: React.FC<ItemEditorProps> = ({ item, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ClothingItem>(item);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [isReplacing, setIsReplacing] = useState(false);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const edited = new Set(draft.editedFields || []);
+
+  const markEdited = (field: EditableItemField, patch: Partial<ClothingItem>) => {
+    setDraft(prev => ({
+      ...prev,
+      ...patch,
+      editedFields: Array.from(new Set([...(prev.editedFields || []), field])),
+    }));
+  };
+
+  const unlockField = (field: EditableItemField) => {
+    setDraft(prev => ({
+      ...prev,
+      editedFields: (prev.editedFields || []).filter(f => f !== field),
+    }));
+  };
+
+  const handleReanalyze = async () => {
+    setIsAnalyzing(true);
+    setAnalysisError(null);
+    try {
+      // An explicit re-analysis always asks the model again
+      const analysis = await analyzeClothingImage(draft.image, { fresh: true });
+      setDraft(prev => applyAnalysis(prev, analysis));
+    } catch (error) {
+      console.error('Re-analysis failed', error);
+      setAnalysisError(describeAIError(error));
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const handleReplacePhoto = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setIsReplacing(true);
+    try {
+      const { image, thumbnail } = await preprocessImage(file);
+      const palette = await extractPalette(thumbnail).catch(() => undefined);
+      // The hash stands in for the photo in duplicate checks and cache keys
+      const imageHash = await hashDataUrl(thumbnail).catch(() => undefined);
+      setDraft(prev => ({ ...prev, image, thumbnail, palette, imageHash }));
+    } catch (error) {
+      console.error(`Failed to process image ${file.name}`, error);
+    } finally {
+      setIsReplacing(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleSave = () => onSave(draft);
+
+  const FieldLabel = ({ field }: { field: EditableItemField }) => (
+    <div className="flex items-center justify-between mb-1">
+      <label className="text-xs font-medium text-stone-500 uppercase tracking-wide">{FIELD_LABELS[field]}</label>
+      {edited.has(field) && (
+        <button
+          type="button"
+          onClick={() => unlockField(field)}
+          className="flex items-center gap-1 text-[10px] text-amber-700 bg-amber-50 border border-amber-200 px-1.5 py-0.5 rounded-md hover:bg-amber-100"
+          title="Edited by you — re-analysis won't change it. Click to allow updates again."
+        >
+          <Lock className="w-3 h-3" /> Edited
+        </button>
+      )}
+    </div>
+  );
+
+  const inputClass =
+    'w-full px-3 py-2 rounded-lg border border-stone-200 text-sm focus:ring-2 focus:ring-stone-500 focus:border-transparent outline-none';
+
+  const chipClass = 'text-xs px-2.5 py-1 rounded-full border transition-all';
+  const chipActive = 'bg-stone-900 text-white border-stone-900';
+  const chipIdle = 'bg-white text-stone-600 border-stone-200 hover:border-stone-400';
+
+  const isBusy = isAnalyzing || isReplacing;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+      <div
+        className="bg-white rounded-3xl shadow-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center px-6 py-4 border-b border-stone-100">
+          <h3 className="text-lg font-bold text-stone-800">Edit Item</h3>
+          <button onClick={onClose} className="p-2 text-stone-400 hover:text-stone-600 rounded-lg">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 p-6">
+          {/* Photo */}
+          <div className="space-y-3">
+            <div className="aspect-square bg-stone-50 rounded-2xl overflow-hidden border border-stone-100 relative">
+              <img src={draft.image || draft.thumbnail} alt={draft.category} className="w-full h-full object-cover" />
+              {isBusy && (
+                <div className="absolute inset-0 bg-white/60 flex items-center justify-center">
+                  <Loader2 className="w-8 h-8 animate-spin text-stone-500" />
+                </div>
+              )}
+            </div>
+            <input type="file" accept="image/*" ref={fileInputRef} onChange={handleReplacePhoto} className="hidden" />
+            <div className="flex gap-2">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isBusy}
+                className="flex-1 flex items-center justify-center gap-2 border border-stone-200 text-stone-700 py-2 rounded-xl text-sm hover:bg-stone-50 disabled:opacity-50"
+              >
+                <ImagePlus className="w-4 h-4" /> Replace Photo
+              </button>
+              <button
+                onClick={handleReanalyze}
+                disabled={isBusy || !draft.image}
+                className="flex-1 flex items-center justify-center gap-2 border border-stone-200 text-stone-700 py-2 rounded-xl text-sm hover:bg-stone-50 disabled:opacity-50"
+              >
+                <Sparkles className="w-4 h-4" /> Re-analyze
+              </button>
+            </div>
+            {analysisError && <p className="text-xs text-red-600 mt-2">{analysisError}</p>}
+          </div>
+
+          {/* Fields */}
+          <div className="space-y-4">
+            <div>
+              <FieldLabel field="category" />
+              <select
+                className={inputClass}
+                value={draft.category}
+                onChange={(e) => markEdited('category', { category: e.target.value })}
+              >
+                {!CATEGORIES.includes(draft.category) && <option value={draft.category}>{draft.category}</option>}
+                {(Object.keys(CATEGORY_TREE) as CategoryGroup[]).map(group => (
+                  <optgroup key={group} label={CATEGORY_GROUP_LABELS[group]}>
+                    {CATEGORY_TREE[group].map(category => (
+                      <option key={category} value={category}>{category}</option>
+                    ))}
+                  </optgroup>
+                ))}
+              </select>
+            </div>
+            <div>
+              <FieldLabel field="color" />
+              <input
+                className={inputClass}
+                value={draft.color}
+                onChange={(e) => markEdited('color', { color: e.target.value })}
+              />
+            </div>
+            <div>
+              <FieldLabel field="formality" />
+              <select
+                className={inputClass}
+                value={draft.formality || 'casual'}
+                onChange={(e) => markEdited('formality', { formality: e.target.value as Formality })}
+              >
+                {FORMALITY_LEVELS.map(level => (
+                  <option key={level} value={level}>{FORMALITY_LABELS[level]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <FieldLabel field="season" />
+              <div className="flex flex-wrap gap-1.5">
+                {SEASONS.map(season => (
+                  <button
+                    key={season}
+                    type="button"
+                    onClick={() => markEdited('season', { season: toggle(draft.season, season) })}
+                    className={`${chipClass} ${draft.season.includes(season) ? chipActive : chipIdle}`}
+                  >
+                    {season}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <FieldLabel field="style" />
+              <div className="flex flex-wrap gap-1.5">
+                {STYLE_TAGS.map(tag => (
+                  <button
+                    key={tag}
+                    type="button"
+                    onClick={() => markEdited('style', { style: toggle(draft.style, tag) })}
+                    className={`${chipClass} ${draft.style.includes(tag) ? chipActive : chipIdle}`}
+                  >
+                    {tag}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-stone-500 uppercase tracking-wide mb-1">Purchase Price (optional)</label>
+              <input
+                type="number"
+                min="0"
+                step="any"
+                className={inputClass}
+                value={draft.purchasePrice ?? ''}
+                placeholder="Used for cost-per-wear"
+                onChange={(e) => {
+                  const price = parseFloat(e.target.value);
+                  setDraft(prev => ({ ...prev, purchasePrice: Number.isFinite(price) && price >= 0 ? price : undefined }));
+                }}
+              />
+            </div>
+            <div>
+              <FieldLabel field="description" />
+              <textarea
+                className={`${inputClass} h-24 resize-none`}
+                value={draft.description || ''}
+                onChange={(e) => markEdited('description', { description: e.target.value })}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 px-6 py-4 border-t border-stone-100">
+          <button onClick={onClose} className="px-5 py-2.5 rounded-xl text-sm text-stone-600 hover:bg-stone-100">
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isBusy}
+            className="flex items-center gap-2 bg-stone-900 text-white px-5 py-2.5 rounded-xl text-sm font-medium hover:bg-stone-800 disabled:opacity-50"
+          >
+            <Save className="w-4 h-4" /> Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ItemEditor;
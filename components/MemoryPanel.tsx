@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { ConversationMemory, UserFact } from '../types';
+import { EMPTY_MEMORY, mergeFacts } from '../services/memoryService';
+import { X, Plus, Trash2, Pencil, Check, Brain } from 'lucide-react';
+
+interface MemoryPanelProps {
+  memory: ConversationMemory;
+  onChange: (memory: ConversationMemory) => void;
+  onClose: () => void;
+}
+
+const MemoryPanel: React.FC<MemoryPanelProps> = ({ memory, onChange, onClose }) => {
+  const [draft, setDraft] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+
+  const addFact = () => {
+    if (!draft.trim()) return;
+    onChange({ ...memory, facts: mergeFacts(memory.facts, [draft], 'manual') });
+    setDraft('');
+  };
+
+  const startEdit = (fact: UserFact) => {
+    setEditingId(fact.id);
+    setEditText(fact.text);
+  };
+
+  // An edited fact counts as the user's own from then on.
+  const saveEdit = () => {
+    const text = editText.trim();
+    onChange({
+      ...memory,
+      facts: text
+        ? memory.facts.map((f) => (f.id === editingId ? { ...f, text, source: 'manual' as const } : f))
+        : memory.facts.filter((f) => f.id !== editingId),
+    });
+    setEditingId(null);
+  };
+
+  const removeFact = (id: string) => onChange({ ...memory, facts: memory.facts.filter((f) => f.id !== id) });
+
+  const resetSummary = () => {
+    if (confirm('Forget the summary of earlier conversation? Your facts are kept.')) {
+      onChange({ ...EMPTY_MEMORY, facts: memory.facts, summarizedThrough: memory.summarizedThrough });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+      <div className="bg-white rounded-3xl shadow-xl w-full max-w-md max-h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center px-6 py-4 border-b border-stone-100">
+          <h3 className="text-lg font-bold text-stone-800 flex items-center gap-2">
+            <Brain className="w-5 h-5" /> What I Remember
+          </h3>
+          <button onClick={onClose} className="p-2 text-stone-400 hover:text-stone-600 rounded-lg">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          {/* Facts */}
+          <div>
+            <div className="text-xs font-bold text-stone-500 uppercase tracking-wide mb-2">About you</div>
+            <p className="text-xs text-stone-500 mb-3">Every answer respects these, even after you clear the chat.</p>
+
+            {memory.facts.length === 0 && (
+              <p className="text-sm text-stone-400 mb-3">Nothing yet. Tell the stylist things like "I don't wear heels".</p>
+            )}
+
+            <ul className="space-y-2 mb-3">
+              {memory.facts.map((fact) => (
+                <li key={fact.id} className="flex items-center gap-2 bg-stone-50 rounded-xl px-3 py-2">
+                  {editingId === fact.id ? (
+                    <>
+                      <input
+                        autoFocus
+                        value={editText}
+                        onChange={(e) => setEditText(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && saveEdit()}
+                        className="flex-1 bg-white border border-stone-200 rounded-lg px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-stone-400"
+                      />
+                      <button onClick={saveEdit} className="p-1 text-stone-500 hover:text-stone-800" aria-label="Save fact">
+                        <Check className="w-4 h-4" />
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <span className="flex-1 text-sm text-stone-700">{fact.text}</span>
+                      {fact.source === 'chat' && (
+                        <span className="text-[10px] text-stone-400 uppercase tracking-wide">from chat</span>
+                      )}
+                      <button onClick={() => startEdit(fact)} className="p-1 text-stone-400 hover:text-stone-700" aria-label="Edit fact">
+                        <Pencil className="w-3.5 h-3.5" />
+                      </button>
+                      <button onClick={() => removeFact(fact.id)} className="p-1 text-stone-400 hover:text-red-500" aria-label="Delete fact">
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </>
+                  )}
+                </li>
+              ))}
+            </ul>
+
+            <div className="flex gap-2">
+              <input
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && addFact()}
+                placeholder="e.g. Office is business casual"
+                className="flex-1 bg-stone-100 rounded-xl px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-stone-200"
+              />
+              <button
+                onClick={addFact}
+                disabled={!draft.trim()}
+                className="p-2 bg-stone-900 text-white rounded-xl disabled:opacity-50 hover:bg-stone-800"
+                aria-label="Add fact"
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          {/* Summary */}
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <div className="text-xs font-bold text-stone-500 uppercase tracking-wide">Earlier conversation</div>
+              {memory.summary && (
+                <button onClick={resetSummary} className="text-xs text-stone-400 hover:text-stone-600">
+                  Forget
+                </button>
+              )}
+            </div>
+            <p className="text-sm text-stone-600 leading-relaxed whitespace-pre-line">
+              {memory.summary || 'Older messages are summarized here once the chat gets long.'}
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MemoryPanel;
@@ -1,22 +1,40 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { OutfitCardData, ClothingItem } from '../types';
-import { Heart, ExternalLink } from 'lucide-react';
+import { formatLastWorn, toDateKey } from '../services/wearService';
+import { composeFlatLay, downloadFlatLay } from '../services/collageService';
+import { Heart, ExternalLink, Check, ChevronDown, LayoutGrid, Download, Loader2 } from 'lucide-react';
 
 interface OutfitCardProps {
   data: OutfitCardData;
   wardrobe: ClothingItem[];
   isFavorite: boolean;
   onToggleFavorite: (outfit: OutfitCardData) => void;
+  lastWorn?: string; // YYYY-MM-DD, from the wear log
+  onLogWear?: (outfit: OutfitCardData) => void;
 }
 
 const placeholderImage = (query = 'clothing') =>
   `https://source.unsplash.com/featured/?${encodeURIComponent(query)}`;
 
-const OutfitCard: React.FC<OutfitCardProps> = ({ data, wardrobe, isFavorite, onToggleFavorite }) => {
+const ruleColor = (score: number) => (score >= 80 ? 'bg-green-500' : score >= 50 ? 'bg-amber-400' : 'bg-red-400');
+
+const OutfitCard: React.FC<OutfitCardProps> = ({ data, wardrobe, isFavorite, onToggleFavorite, lastWorn, onLogWear }) => {
+  const [showWhy, setShowWhy] = useState(false);
+  // Flat-lay preview, composed on first request
+  const [composed, setComposed] = useState<{ key: string; image: string } | null>(null);
+  const [showFlatLay, setShowFlatLay] = useState(false);
+  const [isComposing, setIsComposing] = useState(false);
+  const breakdown = Array.isArray(data.scoreBreakdown) ? data.scoreBreakdown : [];
+
   // Defensive: ensure selectedItemIds exists
   const selectedIds = Array.isArray(data.selectedItemIds) ? data.selectedItemIds : [];
   const selectedItems = wardrobe.filter((item) => selectedIds.includes(item.id));
 
+  // A preview of other pieces or older photos is stale and gets recomposed
+  const itemsKey = selectedItems.map((item) => `${item.id}:${item.imageHash || (item.image || '').length}`).join('|');
+  const flatLay = composed?.key === itemsKey ? composed.image : null;
+  const isShowingFlatLay = showFlatLay && !!flatLay;
+
   // missingItems per your types: MissingItem[]
   const missingItems = Array.isArray(data.missingItems) ? data.missingItems : [];
 
@@ -28,6 +46,24 @@ const OutfitCard: React.FC<OutfitCardProps> = ({ data, wardrobe, isFavorite, onT
     ? data.reasoning.split('\n').slice(0, 2).join(' ').slice(0, 220)
     : '';
 
+  const toggleFlatLay = async () => {
+    if (flatLay) {
+      setShowFlatLay(!isShowingFlatLay);
+      return;
+    }
+    const key = itemsKey;
+    setIsComposing(true);
+    try {
+      const image = await composeFlatLay(selectedItems);
+      if (image) setComposed({ key, image });
+      setShowFlatLay(!!image);
+    } catch (error) {
+      console.error('Flat-lay failed', error);
+    } finally {
+      setIsComposing(false);
+    }
+  };
+
   // Nothing to show?
   if (selectedItems.length === 0 && missingItems.length === 0 && pinterestLooks.length === 0) {
     return null;
@@ -36,30 +72,99 @@ const OutfitCard: React.FC<OutfitCardProps> = ({ data, wardrobe, isFavorite, onT
   return (
     <div className="bg-white rounded-xl border border-stone-200 overflow-hidden shadow-sm animate-fade-in mt-2 w-full max-w-sm">
       <div className="relative bg-stone-50 px-4 py-2 border-b border-stone-100 flex items-center justify-between">
-        <div className="flex items-center gap-2">
-          <span className="w-2 h-2 rounded-full bg-green-500" />
-          <h4 className="text-xs font-bold text-stone-700 uppercase tracking-wide">From your wardrobe</h4>
+        <div className="flex items-center gap-2 min-w-0">
+          <span className="w-2 h-2 shrink-0 rounded-full bg-green-500" />
+          <h4 className="text-xs font-bold text-stone-700 uppercase tracking-wide truncate">{data.title || 'From your wardrobe'}</h4>
+          {typeof data.matchScore === 'number' && (breakdown.length > 0 ? (
+            <button
+              onClick={() => setShowWhy(!showWhy)}
+              className="shrink-0 flex items-center gap-0.5 text-[10px] font-semibold text-stone-500 bg-white border border-stone-200 rounded-full px-1.5 py-0.5 hover:bg-stone-100"
+              title="Why this score"
+            >
+              {data.matchScore}%
+              <ChevronDown className={`w-3 h-3 transition-transform ${showWhy ? 'rotate-180' : ''}`} />
+            </button>
+          ) : (
+            <span className="shrink-0 text-[10px] font-semibold text-stone-500 bg-white border border-stone-200 rounded-full px-1.5 py-0.5" title="Match score">
+              {data.matchScore}%
+            </span>
+          ))}
         </div>
 
-        <button
-          aria-label={isFavorite ? 'Remove favorite' : 'Add favorite'}
-          onClick={() => onToggleFavorite(data)}
-          className="p-1 rounded-md hover:bg-stone-100 transition"
-        >
-          <Heart className={`w-4 h-4 ${isFavorite ? 'text-red-500' : 'text-stone-400'}`} />
-        </button>
+        <div className="flex items-center gap-1">
+          {onLogWear && selectedItems.length > 0 && (
+            <button
+              onClick={() => onLogWear(data)}
+              disabled={lastWorn === toDateKey()}
+              title={formatLastWorn(lastWorn)}
+              className="flex items-center gap-1 text-[10px] font-medium px-2 py-1 rounded-md text-stone-600 hover:bg-stone-100 transition disabled:text-green-600 disabled:hover:bg-transparent"
+            >
+              <Check className="w-3 h-3" />
+              {lastWorn === toDateKey() ? 'Worn today' : 'Wore this'}
+            </button>
+          )}
+          {selectedItems.length > 0 && (
+            <button
+              aria-label={isShowingFlatLay ? 'Show items' : 'Show flat-lay'}
+              title={isShowingFlatLay ? 'Show items' : 'Flat-lay preview'}
+              onClick={toggleFlatLay}
+              disabled={isComposing}
+              className={`p-1 rounded-md hover:bg-stone-100 transition ${isShowingFlatLay ? 'text-stone-800' : 'text-stone-400'}`}
+            >
+              {isComposing ? <Loader2 className="w-4 h-4 animate-spin" /> : <LayoutGrid className="w-4 h-4" />}
+            </button>
+          )}
+          <button
+            aria-label={isFavorite ? 'Remove favorite' : 'Add favorite'}
+            onClick={() => onToggleFavorite(data)}
+            className="p-1 rounded-md hover:bg-stone-100 transition"
+          >
+            <Heart className={`w-4 h-4 ${isFavorite ? 'text-red-500' : 'text-stone-400'}`} />
+          </button>
+        </div>
       </div>
 
       <div className="p-3">
+        {/* Score breakdown: the "why" behind the match score */}
+        {showWhy && breakdown.length > 0 && (
+          <div className="mb-3 space-y-1.5 rounded-lg bg-stone-50 border border-stone-100 p-2">
+            {breakdown.map((rule) => (
+              <div key={rule.id} className="text-[10px]">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-semibold text-stone-700">{rule.label}</span>
+                  <span className="text-stone-500">{rule.score}</span>
+                </div>
+                <div className="h-1 bg-stone-200 rounded-full overflow-hidden mt-0.5">
+                  <div className={`h-full ${ruleColor(rule.score)}`} style={{ width: `${rule.score}%` }} />
+                </div>
+                <p className="text-stone-500 mt-0.5">{rule.note}</p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Flat-lay preview */}
+        {isShowingFlatLay && flatLay && (
+          <div className="relative rounded-lg overflow-hidden border border-stone-100">
+            <img src={flatLay} alt={`${data.title || 'Outfit'} flat-lay`} className="w-full aspect-square object-cover" />
+            <button
+              onClick={() => downloadFlatLay(flatLay, data.title)}
+              className="absolute bottom-2 right-2 flex items-center gap-1 bg-white/90 hover:bg-white text-stone-700 text-[10px] font-medium px-2 py-1 rounded-full shadow-sm"
+            >
+              <Download className="w-3 h-3" /> PNG
+            </button>
+          </div>
+        )}
+
         {/* Selected items grid */}
-        {selectedItems.length > 0 && (
+        {!isShowingFlatLay && selectedItems.length > 0 && (
           <div>
             <div className="grid grid-cols-2 gap-3">
               {selectedItems.map((item) => (
                 <div key={item.id} className="flex flex-col gap-1.5 group">
                   <div className="aspect-square bg-stone-50 rounded-lg overflow-hidden border border-stone-100 relative">
                     <img
-                      src={item.image || placeholderImage(`${item.color} ${item.category}`)}
+                      src={item.thumbnail || item.image || placeholderImage(`${item.color} ${item.category}`)}
                       alt={`${item.color} ${item.category}`}
                       className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-105"
                       onError={(e) => {
@@ -1,48 +1,101 @@
-import React, { useState } from 'react';
-import { ClothingItem, OutfitSuggestion } from '../types';
-import { generateOutfit, generateOutfitVisualization } from '../services/geminiService';
-import { Sparkles, ArrowRight, ShoppingBag, RotateCw, Loader2 } from 'lucide-react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ClothingItem, OutfitCardData, OutfitSuggestion, WearEvent, WeatherContext } from '../types';
+import { generateOutfit } from '../services/stylistProvider';
+import { composeFlatLay, downloadFlatLay } from '../services/collageService';
+import { describeAIError } from '../services/requestService';
+import { suggestionToOutfitCard } from '../services/outfitService';
+import { scoreOutfitCard } from '../services/compatibilityService';
+import { readOccasion } from '../services/candidateService';
+import { toDateKey } from '../services/wearService';
+import { describeWeather, seasonForWeather } from '../services/weatherService';
+import WeatherPanel from './WeatherPanel';
+import { Sparkles, ArrowRight, ShoppingBag, RotateCw, Loader2, AlertTriangle, Download, Heart, Search, CalendarPlus, CloudSun } from 'lucide-react';
 
 interface OutfitGeneratorProps {
   wardrobe: ClothingItem[];
   onFindMissingItems: (query: string) => void;
+  wearLog?: WearEvent[];
+  favorites?: OutfitCardData[];
+  onToggleFavorite?: (outfit: OutfitCardData) => void;
+  onPlan?: (outfit: OutfitCardData, date: string, occasion: string) => void;
+  weather?: WeatherContext | null;
+  onWeatherChange?: (weather: WeatherContext | null) => void;
 }
 
-const OutfitGenerator: React.FC<OutfitGeneratorProps> = ({ wardrobe, onFindMissingItems }) => {
+const OutfitGenerator: React.FC<OutfitGeneratorProps> = ({ wardrobe, onFindMissingItems, wearLog = [], favorites = [], onToggleFavorite, onPlan, weather, onWeatherChange }) => {
   const [occasion, setOccasion] = useState('');
   const [notes, setNotes] = useState('');
   const [isGenerating, setIsGenerating] = useState(false);
   const [suggestion, setSuggestion] = useState<OutfitSuggestion | null>(null);
   const [visualizedImage, setVisualizedImage] = useState<string | null>(null);
   const [isVisualizing, setIsVisualizing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [planDate, setPlanDate] = useState(toDateKey());
+  const [plannedOn, setPlannedOn] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
-  const handleGenerate = async (e: React.FormEvent) => {
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    handleGenerate();
+  };
+
+  // `fresh` skips the cached answer for the same occasion
+  const handleGenerate = async (fresh = false) => {
     if (!occasion.trim() || wardrobe.length === 0) return;
 
     setIsGenerating(true);
     setSuggestion(null);
     setVisualizedImage(null);
+    setPlannedOn(null);
+    setError(null);
+    // A newer run supersedes the one in flight; only the current run may touch state
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const isCurrent = () => abortRef.current === controller && !controller.signal.aborted;
 
     try {
-      const result = await generateOutfit(wardrobe, occasion, notes);
+      const result = await generateOutfit(wardrobe, occasion, notes, wearLog, {
+        signal: controller.signal,
+        fresh,
+        weather: weather || undefined,
+      });
+      if (!isCurrent()) return;
       setSuggestion(result);
       
       // Stop the main "Styling..." spinner as the text result is ready
       setIsGenerating(false);
 
-      // Auto-trigger visualization
+      // Lay the chosen pieces out as a flat-lay preview
       setIsVisualizing(true);
-      const image = await generateOutfitVisualization(result.description);
-      setVisualizedImage(image);
-    } catch (error) {
-      alert("Failed to generate outfit. Please try again.");
+      const image = await composeFlatLay(wardrobe.filter(item => result.selectedItemIds.includes(item.id))).catch(() => null);
+      if (isCurrent()) setVisualizedImage(image);
+    } catch (err) {
+      if (!isCurrent()) return;
+      console.error("Generate outfit failed", err);
+      setError(describeAIError(err));
     } finally {
-      setIsGenerating(false);
-      setIsVisualizing(false);
+      if (abortRef.current === controller) {
+        setIsGenerating(false);
+        setIsVisualizing(false);
+      }
     }
   };
 
+  // The suggestion as favorites store it, scored against the occasion asked
+  // for and the weather it was picked for
+  const card = useMemo(() => {
+    if (!suggestion) return null;
+    const target = readOccasion(`${occasion} ${notes}`);
+    target.season ??= seasonForWeather(suggestion.weather);
+    return scoreOutfitCard(suggestionToOutfitCard(suggestion), wardrobe, target);
+    // Scored once per answer, not per keystroke in the form
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [suggestion, wardrobe]);
+  const isFavorite = !!card && favorites.some(f => f.id === card.id);
+
   const getSelectedItems = () => {
     if (!suggestion) return [];
     return wardrobe.filter(item => suggestion.selectedItemIds.includes(item.id));
@@ -58,8 +111,9 @@ const OutfitGenerator: React.FC<OutfitGeneratorProps> = ({ wardrobe, onFindMissi
       <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
         {/* Input Form */}
         <div className="lg:col-span-4 space-y-6">
+          {onWeatherChange && <WeatherPanel weather={weather || null} onChange={onWeatherChange} />}
           <div className="bg-white p-6 rounded-2xl shadow-sm border border-stone-100">
-            <form onSubmit={handleGenerate} className="space-y-4">
+            <form onSubmit={handleSubmit} className="space-y-4">
               <div>
                 <label className="block text-sm font-medium text-stone-700 mb-2">Occasion</label>
                 <input
@@ -100,6 +154,12 @@ const OutfitGenerator: React.FC<OutfitGeneratorProps> = ({ wardrobe, onFindMissi
               {wardrobe.length === 0 && (
                 <p className="text-xs text-red-500 text-center">Add items to your wardrobe first!</p>
               )}
+              {error && (
+                <p className="flex items-start gap-2 text-xs text-red-600 bg-red-50 border border-red-100 rounded-xl p-3">
+                  <AlertTriangle className="w-4 h-4 shrink-0" />
+                  <span>{error}</span>
+                </p>
+              )}
             </form>
           </div>
 
@@ -114,7 +174,14 @@ const OutfitGenerator: React.FC<OutfitGeneratorProps> = ({ wardrobe, onFindMissi
                 {suggestion.missingItems.map((item, idx) => (
                   <li key={idx} className="text-sm text-rose-800 flex items-start gap-2">
                     <span className="mt-1.5 w-1.5 h-1.5 rounded-full bg-rose-400 shrink-0" />
-                    {item}
+                    <span className="flex-1">{item}</span>
+                    <button
+                      onClick={() => onFindMissingItems(item)}
+                      className="text-rose-400 hover:text-rose-600"
+                      title={`Shop for ${item}`}
+                    >
+                      <Search className="w-3.5 h-3.5" />
+                    </button>
                   </li>
                 ))}
               </ul>
@@ -143,16 +210,24 @@ const OutfitGenerator: React.FC<OutfitGeneratorProps> = ({ wardrobe, onFindMissi
                   <div className="absolute inset-0 flex items-center justify-center text-white/70">
                     <div className="text-center">
                        <Loader2 className="w-10 h-10 animate-spin mx-auto mb-2" />
-                       <p className="text-sm font-light tracking-wide">Sketching your look...</p>
+                       <p className="text-sm font-light tracking-wide">Laying out your look...</p>
                     </div>
                   </div>
                 ) : visualizedImage ? (
-                  <img src={visualizedImage} alt="AI Generated Look" className="w-full h-full object-cover opacity-90 transition-transform duration-700 group-hover:scale-105" />
+                  <img src={visualizedImage} alt={`${suggestion.outfitName} flat-lay`} className="w-full h-full object-contain bg-[#f5f2ec]" />
                 ) : (
                   <div className="absolute inset-0 flex items-center justify-center text-white/50">
-                    <p>Visualization unavailable</p>
+                    <p>No photos to lay out</p>
                   </div>
                 )}
+                {visualizedImage && (
+                  <button
+                    onClick={() => downloadFlatLay(visualizedImage, suggestion.outfitName)}
+                    className="absolute top-3 right-3 flex items-center gap-1.5 bg-white/90 hover:bg-white text-stone-700 text-xs font-medium px-3 py-1.5 rounded-full shadow-sm"
+                  >
+                    <Download className="w-3.5 h-3.5" /> Download PNG
+                  </button>
+                )}
                 <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-6 pt-20">
                   <h3 className="text-2xl font-bold text-white mb-1">{suggestion.outfitName}</h3>
                   <p className="text-white/80 line-clamp-2">{suggestion.reasoning}</p>
@@ -165,7 +240,7 @@ const OutfitGenerator: React.FC<OutfitGeneratorProps> = ({ wardrobe, onFindMissi
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                   {getSelectedItems().map((item) => (
                     <div key={item.id} className="group relative aspect-square bg-stone-50 rounded-xl overflow-hidden border border-stone-100">
-                       <img src={item.image} alt={item.category} className="w-full h-full object-cover" />
+                       <img src={item.thumbnail || item.image} alt={item.category} className="w-full h-full object-cover" />
                        <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center text-white text-xs font-medium">
                           {item.category}
                        </div>
@@ -176,8 +251,55 @@ const OutfitGenerator: React.FC<OutfitGeneratorProps> = ({ wardrobe, onFindMissi
 
               {/* Description */}
               <div className="bg-stone-50 p-6 rounded-2xl border border-stone-100">
-                <h4 className="font-semibold text-stone-800 mb-2">Styling Advice</h4>
+                <div className="flex justify-between items-center mb-2">
+                  <h4 className="font-semibold text-stone-800">Styling Advice</h4>
+                  <div className="flex items-center gap-3">
+                    {card && onToggleFavorite && (
+                      <button
+                        onClick={() => onToggleFavorite(card)}
+                        className="flex items-center gap-1.5 text-xs text-stone-500 hover:text-stone-800"
+                      >
+                        <Heart className={`w-3.5 h-3.5 ${isFavorite ? 'fill-red-500 text-red-500' : ''}`} />
+                        {isFavorite ? 'Saved' : 'Save to favorites'}
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleGenerate(true)}
+                      disabled={isGenerating}
+                      className="flex items-center gap-1.5 text-xs text-stone-500 hover:text-stone-800 disabled:opacity-50"
+                    >
+                      <RotateCw className="w-3.5 h-3.5" /> Regenerate
+                    </button>
+                  </div>
+                </div>
                 <p className="text-stone-600 leading-relaxed">{suggestion.description}</p>
+                {suggestion.weather && (
+                  <p className="flex items-center gap-1.5 mt-3 text-xs text-stone-500">
+                    <CloudSun className="w-3.5 h-3.5" /> Picked for {describeWeather(suggestion.weather)}
+                  </p>
+                )}
+                {card && onPlan && (
+                  <div className="flex flex-wrap items-center gap-2 mt-4 pt-4 border-t border-stone-200">
+                    <input
+                      type="date"
+                      value={planDate}
+                      min={toDateKey()}
+                      onChange={(e) => setPlanDate(e.target.value)}
+                      className="px-3 py-1.5 rounded-lg border border-stone-200 text-xs text-stone-700 bg-white"
+                    />
+                    <button
+                      onClick={() => {
+                        onPlan(card, planDate, occasion);
+                        setPlannedOn(planDate);
+                      }}
+                      disabled={!planDate}
+                      className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-white border border-stone-200 text-xs font-medium text-stone-700 hover:bg-stone-100 disabled:opacity-50"
+                    >
+                      <CalendarPlus className="w-3.5 h-3.5" /> Add to calendar
+                    </button>
+                    {plannedOn && <span className="text-xs text-green-600">Planned for {plannedOn}</span>}
+                  </div>
+                )}
               </div>
             </div>
           )}
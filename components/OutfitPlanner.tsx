@@ -0,0 +1,247 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ClothingItem, OutfitCardData, PlanConflict, PlannedOutfit, WearEvent } from '../types';
+import { planWeek } from '../services/stylistProvider';
+import { describeAIError } from '../services/requestService';
+import { suggestionToOutfitCard } from '../services/outfitService';
+import { scoreOutfitCard } from '../services/compatibilityService';
+import { readOccasion } from '../services/candidateService';
+import { conflictsOn, createPlannedOutfit, findPlanConflicts, weekDates } from '../services/planService';
+import { addDays, daysBetween, toDateKey } from '../services/wearService';
+import { AlertTriangle, CalendarDays, ChevronLeft, ChevronRight, Check, Loader2, Plus, Sparkles, X } from 'lucide-react';
+
+interface OutfitPlannerProps {
+  wardrobe: ClothingItem[];
+  favorites: OutfitCardData[];
+  plans: PlannedOutfit[];
+  onPlansChange: React.Dispatch<React.SetStateAction<PlannedOutfit[]>>;
+  wearLog: WearEvent[];
+}
+
+const dayLabel = (date: string, today: string) => {
+  if (date === today) return 'Today';
+  if (date === addDays(today, 1)) return 'Tomorrow';
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' });
+};
+
+const OutfitPlanner: React.FC<OutfitPlannerProps> = ({ wardrobe, favorites, plans, onPlansChange: setPlans, wearLog }) => {
+  const today = toDateKey();
+  const [weekStart, setWeekStart] = useState(today);
+  const [occasions, setOccasions] = useState<Record<string, string>>({});
+  const [addingTo, setAddingTo] = useState<string | null>(null);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const days = weekDates(weekStart);
+  const byId = useMemo(() => new Map(wardrobe.map(item => [item.id, item])), [wardrobe]);
+  const conflicts = useMemo(() => findPlanConflicts(plans, wearLog, today), [plans, wearLog, today]);
+  // Days already passed can't be planned any more
+  const openDays = days.filter(date => date >= today && !plans.some(plan => plan.date === date));
+
+  const describeConflict = (conflict: PlanConflict, date: string) => {
+    const item = byId.get(conflict.itemId);
+    const name = item ? `${item.color} ${item.category}`.toLowerCase() : 'A piece';
+    const others = conflict.dates.filter(d => d !== date).map(d => dayLabel(d, today));
+    if (conflict.kind === 'consecutive') return `${name} is also on ${others.join(', ')}`;
+    if (!others.length) return `${name} is in two outfits on this day`;
+    const span = daysBetween(conflict.dates[0], conflict.dates[conflict.dates.length - 1]) + 1;
+    return `${name} is booked ${conflict.dates.length} times in ${span} days`;
+  };
+
+  const addPlan = (outfit: OutfitCardData, date: string) => {
+    setPlans(prev => [...prev, createPlannedOutfit(outfit, date, occasions[date])]);
+    setAddingTo(null);
+  };
+
+  const removePlan = (id: string) => setPlans(prev => prev.filter(plan => plan.id !== id));
+
+  // Fills every open day in view, each with the occasion typed for it
+  const handlePlanWeek = async () => {
+    if (!openDays.length || !wardrobe.length) return;
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsPlanning(true);
+    setError(null);
+    const requests = openDays.map(date => ({ date, occasion: occasions[date]?.trim() || 'Everyday' }));
+    try {
+      const suggestions = await planWeek(wardrobe, requests, wearLog, { signal: controller.signal });
+      const planned = suggestions
+        .map((suggestion, i) => {
+          if (!suggestion.selectedItemIds.length) return null;
+          const card = scoreOutfitCard(suggestionToOutfitCard(suggestion), wardrobe, readOccasion(requests[i].occasion));
+          return createPlannedOutfit(card, requests[i].date, requests[i].occasion);
+        })
+        .filter((plan): plan is PlannedOutfit => !!plan);
+      setPlans(prev => [...prev, ...planned]);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error('Plan week failed', err);
+      setError(describeAIError(err));
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsPlanning(false);
+      }
+    }
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6 animate-fade-in">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-stone-800">Outfit Calendar</h2>
+          <p className="text-stone-500">Plan the week ahead. Past days are logged as worn.</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setWeekStart(addDays(weekStart, -7))}
+            className="p-2 rounded-lg border border-stone-200 text-stone-500 hover:bg-stone-100"
+            aria-label="Previous week"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setWeekStart(today)}
+            className="px-3 py-2 rounded-lg border border-stone-200 text-sm text-stone-600 hover:bg-stone-100"
+          >
+            This week
+          </button>
+          <button
+            onClick={() => setWeekStart(addDays(weekStart, 7))}
+            className="p-2 rounded-lg border border-stone-200 text-stone-500 hover:bg-stone-100"
+            aria-label="Next week"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+          <button
+            onClick={handlePlanWeek}
+            disabled={isPlanning || !openDays.length || !wardrobe.length}
+            className="flex items-center gap-2 bg-stone-900 hover:bg-stone-800 text-white px-4 py-2 rounded-xl text-sm font-medium shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
+            title={openDays.length ? 'Ask the stylist for an outfit on every open day' : 'Every day in view is planned'}
+          >
+            {isPlanning ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+            Plan my week
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <p className="flex items-start gap-2 text-sm text-red-600 bg-red-50 border border-red-100 rounded-xl p-3">
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          <span>{error}</span>
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 xl:grid-cols-7 gap-4">
+        {days.map(date => {
+          const dayPlans = plans.filter(plan => plan.date === date);
+          const isPast = date < today;
+          return (
+            <div
+              key={date}
+              className={`bg-white rounded-2xl border p-3 space-y-3 ${date === today ? 'border-stone-800' : 'border-stone-100'} ${isPast ? 'opacity-70' : ''}`}
+            >
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-bold text-stone-800">{dayLabel(date, today)}</h3>
+                {!isPast && (
+                  <button
+                    onClick={() => setAddingTo(addingTo === date ? null : date)}
+                    className="p-1 rounded-md text-stone-400 hover:text-stone-800 hover:bg-stone-100"
+                    title="Add a favorite"
+                  >
+                    <Plus className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+
+              {!isPast && (
+                <input
+                  type="text"
+                  value={occasions[date] || ''}
+                  onChange={(e) => setOccasions(prev => ({ ...prev, [date]: e.target.value }))}
+                  placeholder="Occasion"
+                  className="w-full px-2 py-1.5 rounded-lg border border-stone-200 text-xs outline-none focus:ring-2 focus:ring-stone-300"
+                />
+              )}
+
+              {addingTo === date && (
+                <div className="max-h-48 overflow-y-auto space-y-1 border border-stone-100 rounded-lg p-1">
+                  {favorites.length === 0 ? (
+                    <p className="text-[11px] text-stone-400 p-2">Save outfits as favorites to plan them here.</p>
+                  ) : (
+                    favorites.map(fav => (
+                      <button
+                        key={fav.id}
+                        onClick={() => addPlan(fav, date)}
+                        className="w-full text-left text-xs px-2 py-1.5 rounded-md hover:bg-stone-100 truncate"
+                      >
+                        {fav.title || 'Saved outfit'}
+                      </button>
+                    ))
+                  )}
+                </div>
+              )}
+
+              {dayPlans.length === 0 && addingTo !== date && (
+                <p className="text-[11px] text-stone-400">{isPast ? 'Nothing planned.' : 'Open'}</p>
+              )}
+
+              {dayPlans.map(plan => {
+                const warnings = conflictsOn(conflicts, plan);
+                const items = plan.outfit.selectedItemIds.map(id => byId.get(id)).filter((item): item is ClothingItem => !!item);
+                return (
+                  <div key={plan.id} className="rounded-xl bg-stone-50 border border-stone-100 p-2 space-y-2">
+                    <div className="flex items-start justify-between gap-1">
+                      <div className="min-w-0">
+                        <p className="text-xs font-semibold text-stone-800 truncate">{plan.outfit.title || 'Outfit'}</p>
+                        {plan.occasion && <p className="text-[10px] text-stone-500 truncate">{plan.occasion}</p>}
+                      </div>
+                      {plan.wearLogged ? (
+                        <span className="flex items-center gap-0.5 text-[10px] text-green-600 shrink-0" title="Logged as worn">
+                          <Check className="w-3 h-3" /> Worn
+                        </span>
+                      ) : (
+                        <button onClick={() => removePlan(plan.id)} className="p-0.5 text-stone-400 hover:text-red-500 shrink-0" aria-label="Remove">
+                          <X className="w-3.5 h-3.5" />
+                        </button>
+                      )}
+                    </div>
+                    <div className="grid grid-cols-3 gap-1">
+                      {items.slice(0, 6).map(item => (
+                        <img
+                          key={item.id}
+                          src={item.thumbnail || item.image}
+                          alt={`${item.color} ${item.category}`}
+                          title={`${item.color} ${item.category}`}
+                          className="aspect-square w-full object-cover rounded-md bg-white"
+                        />
+                      ))}
+                    </div>
+                    {!plan.wearLogged && warnings.map((conflict, i) => (
+                      <p key={i} className="flex items-start gap-1 text-[10px] text-amber-700">
+                        <AlertTriangle className="w-3 h-3 shrink-0 mt-px" />
+                        <span className="first-letter:uppercase">{describeConflict(conflict, date)}</span>
+                      </p>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+
+      {wardrobe.length === 0 && (
+        <p className="flex items-center justify-center gap-2 text-sm text-stone-400">
+          <CalendarDays className="w-4 h-4" /> Add items to your wardrobe to plan outfits.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default OutfitPlanner;
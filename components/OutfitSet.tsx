@@ -0,0 +1,114 @@
+import React, { useRef, useState } from 'react';
+import { ClothingItem, OutfitCardData, WearEvent } from '../types';
+import { lastWornDate } from '../services/wearService';
+import OutfitCard from './OutfitCard';
+import { ChevronLeft, ChevronRight, Columns } from 'lucide-react';
+
+interface OutfitSetProps {
+  outfits: OutfitCardData[]; // Ranked, best first
+  wardrobe: ClothingItem[];
+  favorites: OutfitCardData[];
+  onToggleFavorite: (outfit: OutfitCardData) => void;
+  wearLog: WearEvent[];
+  onLogWear: (outfit: OutfitCardData) => void;
+  renderDetails?: (outfit: OutfitCardData) => React.ReactNode; // Extra sections under the active outfit
+}
+
+const SWIPE_THRESHOLD = 40; // px
+
+const OutfitSet: React.FC<OutfitSetProps> = ({ outfits, wardrobe, favorites, onToggleFavorite, wearLog, onLogWear, renderDetails }) => {
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [isComparing, setIsComparing] = useState(false);
+  const touchStartX = useRef<number | null>(null);
+
+  if (outfits.length === 0) return null;
+
+  const index = Math.min(activeIndex, outfits.length - 1);
+  const active = outfits[index];
+  const go = (delta: number) => setActiveIndex((index + delta + outfits.length) % outfits.length);
+
+  const renderCard = (outfit: OutfitCardData) => (
+    <OutfitCard
+      data={outfit}
+      wardrobe={wardrobe}
+      isFavorite={favorites.some((f) => f.id === outfit.id)}
+      onToggleFavorite={onToggleFavorite}
+      lastWorn={lastWornDate(wearLog, (e) => e.outfitId === outfit.id)}
+      onLogWear={onLogWear}
+    />
+  );
+
+  if (outfits.length === 1) {
+    return (
+      <>
+        {renderCard(active)}
+        {renderDetails?.(active)}
+      </>
+    );
+  }
+
+  return (
+    <div className="w-full">
+      {/* Option switcher */}
+      <div className="flex items-center gap-1 mt-2">
+        {outfits.map((outfit, i) => (
+          <button
+            key={outfit.id}
+            onClick={() => { setActiveIndex(i); setIsComparing(false); }}
+            className={`text-[11px] px-2.5 py-1 rounded-full border transition ${
+              i === index && !isComparing
+                ? 'bg-stone-900 text-white border-stone-900'
+                : 'bg-white text-stone-600 border-stone-200 hover:border-stone-300'
+            }`}
+          >
+            Option {i + 1} · {outfit.matchScore}%
+          </button>
+        ))}
+        <button
+          onClick={() => setIsComparing((v) => !v)}
+          title={isComparing ? 'Show one at a time' : 'Compare side by side'}
+          className={`ml-auto p-1.5 rounded-md transition ${isComparing ? 'bg-stone-200 text-stone-800' : 'text-stone-400 hover:bg-stone-100'}`}
+        >
+          <Columns className="w-4 h-4" />
+        </button>
+      </div>
+
+      {isComparing ? (
+        <div className="flex gap-3 overflow-x-auto snap-x pb-2">
+          {outfits.map((outfit) => (
+            <div key={outfit.id} className="snap-start shrink-0 w-64">
+              {renderCard(outfit)}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <>
+          <div
+            className="relative"
+            onTouchStart={(e) => (touchStartX.current = e.touches[0].clientX)}
+            onTouchEnd={(e) => {
+              if (touchStartX.current === null) return;
+              const dx = e.changedTouches[0].clientX - touchStartX.current;
+              touchStartX.current = null;
+              if (Math.abs(dx) > SWIPE_THRESHOLD) go(dx < 0 ? 1 : -1);
+            }}
+          >
+            {renderCard(active)}
+            <div className="flex items-center justify-between max-w-sm mt-1">
+              <button onClick={() => go(-1)} aria-label="Previous outfit" className="p-1 rounded-md text-stone-400 hover:bg-stone-100">
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <span className="text-[10px] text-stone-400">{index + 1} / {outfits.length}</span>
+              <button onClick={() => go(1)} aria-label="Next outfit" className="p-1 rounded-md text-stone-400 hover:bg-stone-100">
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+          {renderDetails?.(active)}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default OutfitSet;
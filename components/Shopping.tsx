@@ -1,6 +1,7 @@
-import React, { useState, useEffect } from 'react';
-import { searchForItems } from '../services/geminiService';
-import { Search, ExternalLink, ShoppingBag, Loader2 } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { searchForItems } from '../services/stylistProvider';
+import { describeAIError } from '../services/requestService';
+import { Search, ExternalLink, ShoppingBag, Loader2, AlertTriangle, RotateCcw } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 
 interface ShoppingProps {
@@ -9,26 +10,42 @@ interface ShoppingProps {
 
 const Shopping: React.FC<ShoppingProps> = ({ initialQuery }) => {
   const [query, setQuery] = useState(initialQuery || '');
-  const [results, setResults] = useState<{ text: string, groundingChunks: any[] } | null>(null);
+  const [results, setResults] = useState<{ query: string, text: string, groundingChunks: any[] } | null>(null);
   const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<{ query: string; message: string } | null>(null);
+  // A new search replaces one still in flight
+  const searchRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => searchRef.current?.abort(), []);
 
   useEffect(() => {
     if (initialQuery) {
+        setQuery(initialQuery);
         handleSearch(initialQuery);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [initialQuery]);
 
-  const handleSearch = async (searchQuery: string) => {
+  const handleSearch = async (searchQuery: string, fresh = false) => {
     if (!searchQuery.trim()) return;
+    searchRef.current?.abort();
+    const controller = new AbortController();
+    searchRef.current = controller;
     setLoading(true);
+    setError(null);
     try {
-      const data = await searchForItems(searchQuery);
-      setResults(data);
-    } catch (error) {
-      console.error("Search failed", error);
+      const data = await searchForItems(searchQuery, { signal: controller.signal, fresh });
+      setResults({ ...data, query: searchQuery });
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error("Search failed", err);
+      setResults(null);
+      setError({ query: searchQuery, message: describeAIError(err) });
     } finally {
-      setLoading(false);
+      if (searchRef.current === controller) {
+        searchRef.current = null;
+        setLoading(false);
+      }
     }
   };
 
@@ -92,9 +109,30 @@ const Shopping: React.FC<ShoppingProps> = ({ initialQuery }) => {
                <div className="h-4 bg-stone-200 rounded w-full"></div>
                <div className="h-4 bg-stone-200 rounded w-5/6"></div>
              </div>
+           ) : error ? (
+             <div className="flex items-start gap-3 p-6 bg-red-50 rounded-2xl border border-red-100 text-red-700">
+               <AlertTriangle className="w-5 h-5 shrink-0 mt-0.5" />
+               <div className="flex-1">
+                 <p className="text-sm">{error.message}</p>
+                 <button
+                   onClick={() => handleSearch(error.query)}
+                   className="mt-3 flex items-center gap-1.5 px-3 py-1.5 bg-white border border-red-200 rounded-lg text-xs font-medium hover:bg-red-100"
+                 >
+                   <RotateCcw className="w-3.5 h-3.5" /> Try again
+                 </button>
+               </div>
+             </div>
            ) : results ? (
-             <div className="bg-white p-8 rounded-2xl border border-stone-100 shadow-sm prose prose-stone max-w-none">
-                <ReactMarkdown>{results.text}</ReactMarkdown>
+             <div className="bg-white p-8 rounded-2xl border border-stone-100 shadow-sm">
+                <div className="prose prose-stone max-w-none">
+                  <ReactMarkdown>{results.text}</ReactMarkdown>
+                </div>
+                <button
+                  onClick={() => handleSearch(results.query, true)}
+                  className="mt-6 flex items-center gap-1.5 text-xs text-stone-400 hover:text-stone-700"
+                >
+                  <RotateCcw className="w-3.5 h-3.5" /> Search again for fresh results
+                </button>
              </div>
            ) : (
              <div className="text-center py-20 opacity-50">
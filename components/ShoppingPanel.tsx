@@ -0,0 +1,45 @@
+import React from 'react';
+import { MissingItem } from '../types';
+import { ShoppingBag } from 'lucide-react';
+
+interface ShoppingPanelProps {
+  items: MissingItem[];
+  title?: string;
+}
+
+const ShoppingPanel: React.FC<ShoppingPanelProps> = ({ items, title }) => {
+  if (items.length === 0) return null;
+
+  return (
+    <div className="mt-3 space-y-3">
+      {title && (
+        <div className="flex items-center gap-2 text-xs font-bold text-stone-700 uppercase tracking-wide">
+          <ShoppingBag className="w-3.5 h-3.5" />
+          {title}
+        </div>
+      )}
+      {items.map((miss, i) => (
+        <div key={miss.id || i} className="p-3 border rounded-xl bg-white shadow-sm">
+          <div className="flex items-baseline justify-between gap-2">
+            <div className="font-medium">{miss.name}</div>
+            {miss.shoppingOptions?.[0]?.price && miss.shoppingOptions[0].price !== 'N/A' && (
+              <div className="text-xs text-stone-500 shrink-0">{miss.shoppingOptions[0].price}</div>
+            )}
+          </div>
+          {miss.pinterestQuery && miss.pinterestQuery !== miss.name && (
+            <div className="text-xs text-stone-500">{miss.pinterestQuery}</div>
+          )}
+          <div className="flex gap-2 mt-2 flex-wrap">
+            {(miss.shoppingOptions || []).map((opt, j) => (
+              <a key={j} href={opt.url} target="_blank" rel="noopener noreferrer" className="px-3 py-1 text-sm rounded-md bg-stone-900 text-white hover:bg-stone-700">
+                Buy on {opt.storeName}
+              </a>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ShoppingPanel;
@@ -1,50 +1,88 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { ClothingItem, ChatMessage, StylistResponse, OutfitCardData } from '../types';
-import { generateStylistResponse } from '../services/geminiService';
-import OutfitCard from './OutfitCard';
-import { Send, Loader2, Sparkles, User, RefreshCcw } from 'lucide-react';
+import { ClothingItem, ChatMessage, ConversationMemory, StylistResponse, OutfitCardData, WearEvent, WeatherContext } from '../types';
+import { streamStylistResponse, summarizeConversation } from '../services/stylistProvider';
+import {
+  applySummary,
+  buildConversationContext,
+  extractFactsLocally,
+  mergeFacts,
+  needsSummary,
+  pendingSummary,
+} from '../services/memoryService';
+import { toAIRequestError } from '../services/requestService';
+import { describeWeather } from '../services/weatherService';
+import OutfitSet from './OutfitSet';
+import IdeaBoards from './IdeaBoards';
+import ShoppingPanel from './ShoppingPanel';
+import MemoryPanel from './MemoryPanel';
+import WeatherPanel from './WeatherPanel';
+import { Send, Loader2, Sparkles, User, RefreshCcw, Square, Brain, AlertTriangle, RotateCcw, RotateCw, CloudSun } from 'lucide-react';
 
 interface StylistChatProps {
   wardrobe: ClothingItem[];
+  messages: ChatMessage[];
+  onMessagesChange: React.Dispatch<React.SetStateAction<ChatMessage[]>>;
+  memory: ConversationMemory;
+  onMemoryChange: React.Dispatch<React.SetStateAction<ConversationMemory>>;
   favorites: OutfitCardData[];
   onToggleFavorite: (outfit: OutfitCardData) => void;
+  wearLog: WearEvent[];
+  onLogWear: (outfit: OutfitCardData) => void;
+  weather?: WeatherContext | null;
+  onWeatherChange?: (weather: WeatherContext | null) => void;
 }
 
-const StylistChat: React.FC<StylistChatProps> = ({ wardrobe, favorites, onToggleFavorite }) => {
-  const [messages, setMessages] = useState<ChatMessage[]>(() => {
-    try {
-      const saved = localStorage.getItem('styleMate_conversations_v1');
-      return saved
-        ? JSON.parse(saved)
-        : [
-            {
-              id: 'init',
-              role: 'stylist',
-              content:
-                "Hi! I'm your AI Style Mate. Upload your clothes, then tell me where you're going (e.g. 'Date Night')!",
-              timestamp: Date.now(),
-            },
-          ];
-    } catch {
-      return [];
-    }
-  });
+const createWelcomeMessage = (): ChatMessage => ({
+  id: 'init',
+  role: 'stylist',
+  content:
+    "Hi! I'm your AI Style Mate. Upload your clothes, then tell me where you're going (e.g. 'Date Night')!",
+  timestamp: Date.now(),
+});
 
+const StylistChat: React.FC<StylistChatProps> = ({ wardrobe, messages, onMessagesChange: setMessages, memory, onMemoryChange: setMemory, favorites, onToggleFavorite, wearLog, onLogWear, weather, onWeatherChange }) => {
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [isMemoryOpen, setIsMemoryOpen] = useState(false);
+  const isSummarizingRef = useRef(false);
+  // The reply being streamed; only added to `messages` once it is final
+  const [streamingReply, setStreamingReply] = useState<ChatMessage | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
+  // Stop generating if the chat is closed mid-reply
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    if (messages.length === 0) setMessages([createWelcomeMessage()]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [messages.length]);
+
   useEffect(() => {
-    localStorage.setItem('styleMate_conversations_v1', JSON.stringify(messages));
     scrollToBottom();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [messages]);
+  }, [messages, streamingReply?.content]);
+
+  // Fold turns that left the recent window into the summary, in the background
+  useEffect(() => {
+    if (isLoading || isSummarizingRef.current || !needsSummary(messages, memory)) return;
+    const pending = pendingSummary(messages, memory);
+    isSummarizingRef.current = true;
+    summarizeConversation(memory.summary, pending)
+      .then((update) => setMemory((prev) => applySummary(prev, pending, update)))
+      .catch((error) => console.error('Conversation summary failed', error))
+      .finally(() => (isSummarizingRef.current = false));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [messages, isLoading]);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
-  const handleSend = async (text: string) => {
+  // `history` is the conversation this message follows; a retry or
+  // regenerate passes the one without the attempt it replaces. `fresh`
+  // skips the cached answer.
+  const handleSend = async (text: string, history: ChatMessage[] = messages, fresh = false) => {
     if (!text.trim() || isLoading) return;
 
     const userMsg: ChatMessage = {
@@ -58,40 +96,109 @@ const StylistChat: React.FC<StylistChatProps> = ({ wardrobe, favorites, onToggle
     setInput('');
     setIsLoading(true);
 
-    try {
-      const response: StylistResponse = await generateStylistResponse(text, wardrobe, messages);
+    // Facts stated in this message apply to this very reply
+    const stated = extractFactsLocally(text);
+    const nextMemory = stated.length ? { ...memory, facts: mergeFacts(memory.facts, stated, 'chat') } : memory;
+    if (nextMemory !== memory) setMemory((prev) => ({ ...prev, facts: mergeFacts(prev.facts, stated, 'chat') }));
+    const context = { ...buildConversationContext(history, nextMemory), weather: weather || undefined };
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const replyId = crypto.randomUUID();
+    let latest: StylistResponse | null = null;
+
+    const toMessage = (response: StylistResponse): ChatMessage => ({
+      id: replyId,
+      role: 'stylist',
+      content: response.message || '',
+      data: response,
+      timestamp: Date.now(),
+    });
 
-      const stylistMsg: ChatMessage = {
-        id: crypto.randomUUID(),
-        role: 'stylist',
-        content: response.message || '',
-        data: response,
-        timestamp: Date.now(),
-      };
+    try {
+      const response = await streamStylistResponse(text, wardrobe, context, wearLog, {
+        signal: controller.signal,
+        fresh,
+        onPartial: (partial) => {
+          latest = partial;
+          setStreamingReply(toMessage(partial));
+        },
+      });
 
-      setMessages((prev) => [...prev, stylistMsg]);
+      setMessages((prev) => [...prev, toMessage(response)]);
     } catch (error) {
-      const errorMsg: ChatMessage = {
-        id: crypto.randomUUID(),
-        role: 'stylist',
-        content: 'Sorry, I’m having trouble connecting right now. Please try again.',
-        timestamp: Date.now(),
-      };
-      setMessages((prev) => [...prev, errorMsg]);
+      if (controller.signal.aborted) {
+        // Keep whatever had arrived before Stop was pressed
+        const partial = latest as StylistResponse | null;
+        const stopped: ChatMessage = partial?.message
+          ? { ...toMessage(partial), content: `${partial.message} …` }
+          : { id: replyId, role: 'stylist', content: 'Stopped.', timestamp: Date.now() };
+        setMessages((prev) => [...prev, stopped]);
+      } else {
+        const failure = toAIRequestError(error);
+        console.error('Stylist reply failed', error);
+        const errorMsg: ChatMessage = {
+          id: crypto.randomUUID(),
+          role: 'stylist',
+          content: failure.message,
+          error: { kind: failure.kind, retryText: text },
+          timestamp: Date.now(),
+        };
+        setMessages((prev) => [...prev, errorMsg]);
+      }
     } finally {
+      abortRef.current = null;
+      setStreamingReply(null);
       setIsLoading(false);
     }
   };
 
+  const handleStop = () => abortRef.current?.abort();
+
+  // Drops a reply and the message it answered, then asks again
+  const resend = (reply: ChatMessage, text: string, fresh: boolean) => {
+    const index = messages.findIndex((m) => m.id === reply.id);
+    const asked = messages[index - 1];
+    const remaining = messages.filter((m) => m !== reply && !(m === asked && m.role === 'user'));
+    setMessages(remaining);
+    handleSend(text, remaining, fresh);
+  };
+
+  const handleRetry = (failed: ChatMessage) => resend(failed, failed.error!.retryText, false);
+
+  const handleRegenerate = (reply: ChatMessage) => {
+    const asked = messages[messages.findIndex((m) => m.id === reply.id) - 1];
+    if (asked?.role === 'user') resend(reply, asked.content, true);
+  };
+
+  // Inspiration and full shopping links for the outfit currently shown
+  const renderOutfitDetails = (outfit: OutfitCardData) => (
+    <>
+      {outfit.pinterestLooks && outfit.pinterestLooks.length > 0 && (
+        <div className="grid grid-cols-2 gap-3 mt-2">
+          {outfit.pinterestLooks.map((img, idx) => {
+            // pinterestLooks: { title, previewImageUrl, pinterestUrl } per types
+            const imageUrl = (img as any).previewImageUrl || (img as any).imageUrl || '';
+            const link = (img as any).pinterestUrl || (img as any).link || '#';
+            const title = (img as any).title || `Look ${idx + 1}`;
+            return (
+              <a key={idx} href={link} target="_blank" rel="noopener noreferrer" className="block hover:opacity-90">
+                <img src={imageUrl || `https://source.unsplash.com/featured/?${encodeURIComponent(title)}`} alt={title} className="w-full h-32 object-cover rounded-xl" />
+                <div className="text-xs mt-1">{title}</div>
+              </a>
+            );
+          })}
+        </div>
+      )}
+
+      <ShoppingPanel items={outfit.missingItems || []} />
+    </>
+  );
+
   const clearHistory = () => {
-    if (confirm('Clear conversation history?')) {
-      const initMsg: ChatMessage = {
-        id: 'init',
-        role: 'stylist',
-        content: "Hi! I'm your AI Style Mate. Upload your clothes, then tell me where you're going!",
-        timestamp: Date.now(),
-      };
-      setMessages([initMsg]);
+    if (confirm('Clear conversation history? Facts the stylist remembers about you are kept.')) {
+      setMessages([createWelcomeMessage()]);
+      setMemory((prev) => ({ ...prev, summary: '', summarizedThrough: 0 }));
     }
   };
 
@@ -109,19 +216,43 @@ const StylistChat: React.FC<StylistChatProps> = ({ wardrobe, favorites, onToggle
           </div>
         </div>
 
-        <button onClick={clearHistory} className="text-stone-400 hover:text-stone-600 p-2">
-          <RefreshCcw className="w-4 h-4" />
-        </button>
+        <div className="flex items-center">
+          <button
+            onClick={() => setIsMemoryOpen(true)}
+            title="What the stylist remembers"
+            className="relative text-stone-400 hover:text-stone-600 p-2"
+          >
+            <Brain className="w-4 h-4" />
+            {memory.facts.length > 0 && (
+              <span className="absolute top-0.5 right-0.5 min-w-[14px] h-[14px] px-0.5 rounded-full bg-stone-900 text-white text-[9px] leading-[14px] text-center">
+                {memory.facts.length}
+              </span>
+            )}
+          </button>
+          <button onClick={clearHistory} className="text-stone-400 hover:text-stone-600 p-2">
+            <RefreshCcw className="w-4 h-4" />
+          </button>
+        </div>
       </div>
 
+      {onWeatherChange && (
+        <div className="px-4 pt-3 bg-[#FAFAF9]">
+          <WeatherPanel weather={weather || null} onChange={onWeatherChange} />
+        </div>
+      )}
+
+      {isMemoryOpen && <MemoryPanel memory={memory} onChange={setMemory} onClose={() => setIsMemoryOpen(false)} />}
+
       {/* Messages */}
       <div className="flex-1 overflow-y-auto p-4 space-y-6 bg-[#FAFAF9]">
-        {messages.map((msg) => {
+        {(streamingReply ? [...messages, streamingReply] : messages).map((msg) => {
           const isUser = msg.role === 'user';
           const data = msg.data as StylistResponse | undefined;
 
-          // Prefer new schema: data.outfits[0]
-          const outfit = data?.outfits && data.outfits.length > 0 ? data.outfits[0] : undefined;
+          // Alternatives worth showing: wardrobe picks or at least something to buy/browse
+          const outfits = (data?.outfits || []).filter(
+            (o) => o.selectedItemIds?.length || o.missingItems?.length || o.pinterestLooks?.length
+          );
 
           // Fallback legacy fields
           const legacyInspo = (data as any)?.inspirationImages;
@@ -146,52 +277,58 @@ const StylistChat: React.FC<StylistChatProps> = ({ wardrobe, favorites, onToggle
                     className={`px-5 py-3 rounded-2xl text-sm leading-relaxed shadow-sm ${
                       isUser
                         ? 'bg-stone-800 text-white rounded-tr-none'
-                        : 'bg-white border border-stone-200 text-stone-700 rounded-tl-none'
+                        : msg.error
+                          ? 'bg-red-50 border border-red-100 text-red-700 rounded-tl-none'
+                          : 'bg-white border border-stone-200 text-stone-700 rounded-tl-none'
                     }`}
                   >
+                    {msg.error && <AlertTriangle className="w-4 h-4 inline mr-1.5 -mt-0.5" />}
                     {msg.content}
                   </div>
 
-                  {/* OutfitCard (uses new schema) */}
-                  {!isUser && outfit && outfit.selectedItemIds && outfit.selectedItemIds.length > 0 && (
-                    <OutfitCard
-                      data={outfit}
-                      wardrobe={wardrobe}
-                      isFavorite={favorites.some((f) => f.id === outfit.id)}
-                      onToggleFavorite={onToggleFavorite}
-                    />
+                  {/* Retry a failed reply (safety blocks need rewording instead) */}
+                  {msg.error && msg.error.kind !== 'safety' && msg === messages[messages.length - 1] && (
+                    <button
+                      onClick={() => handleRetry(msg)}
+                      disabled={isLoading}
+                      className="self-start flex items-center gap-1.5 text-xs bg-white border border-stone-200 px-3 py-1.5 rounded-full text-stone-600 hover:bg-stone-50 disabled:opacity-50"
+                    >
+                      <RotateCcw className="w-3 h-3" /> Try again
+                    </button>
+                  )}
+
+                  {/* Idea boards (new_ideas) */}
+                  {!isUser && data?.mode === 'new_ideas' && data.ideas && (
+                    <IdeaBoards ideas={data.ideas} wardrobe={wardrobe} />
                   )}
 
-                  {/* If no outfit selected but outfit exists with missingItems, show OutfitCard too */}
-                  {!isUser && outfit && (!outfit.selectedItemIds || outfit.selectedItemIds.length === 0) && (outfit.missingItems?.length || outfit.pinterestLooks?.length) && (
-                    <OutfitCard
-                      data={outfit}
+                  {/* Shopping panel (shopping_help) */}
+                  {!isUser && data?.mode === 'shopping_help' && data.shoppingItems && (
+                    <ShoppingPanel items={data.shoppingItems} title="Worth buying" />
+                  )}
+
+                  {/* Weather the outfits were picked for */}
+                  {!isUser && data?.weather && outfits.length > 0 && (
+                    <p className="flex items-center gap-1.5 text-xs text-stone-500 px-1">
+                      <CloudSun className="w-3.5 h-3.5" /> Picked for {describeWeather(data.weather)}
+                    </p>
+                  )}
+
+                  {/* Ranked outfit alternatives (wardrobe_outfit) */}
+                  {!isUser && data?.mode === 'wardrobe_outfit' && outfits.length > 0 && (
+                    <OutfitSet
+                      outfits={outfits}
                       wardrobe={wardrobe}
-                      isFavorite={favorites.some((f) => f.id === outfit.id)}
+                      favorites={favorites}
                       onToggleFavorite={onToggleFavorite}
+                      wearLog={wearLog}
+                      onLogWear={onLogWear}
+                      renderDetails={renderOutfitDetails}
                     />
                   )}
 
-                  {/* Pinterest Inspiration Grid (new schema) */}
-                  {!isUser && outfit?.pinterestLooks && outfit.pinterestLooks.length > 0 && (
-                    <div className="grid grid-cols-2 gap-3 mt-2">
-                      {outfit.pinterestLooks.map((img, idx) => {
-                        // pinterestLooks: { title, previewImageUrl, pinterestUrl } per types
-                        const imageUrl = (img as any).previewImageUrl || (img as any).imageUrl || '';
-                        const link = (img as any).pinterestUrl || (img as any).pinterestUrl || (img as any).link || '#';
-                        const title = (img as any).title || `Look ${idx + 1}`;
-                        return (
-                          <a key={idx} href={link} target="_blank" rel="noopener noreferrer" className="block hover:opacity-90">
-                            <img src={imageUrl || `https://source.unsplash.com/featured/?${encodeURIComponent(title)}`} alt={title} className="w-full h-32 object-cover rounded-xl" />
-                            <div className="text-xs mt-1">{title}</div>
-                          </a>
-                        );
-                      })}
-                    </div>
-                  )}
-
                   {/* Pinterest Inspiration Grid (legacy fallback) */}
-                  {!isUser && !outfit?.pinterestLooks && Array.isArray(legacyInspo) && legacyInspo.length > 0 && (
+                  {!isUser && !data?.outfits && Array.isArray(legacyInspo) && legacyInspo.length > 0 && (
                     <div className="grid grid-cols-2 gap-3 mt-2">
                       {legacyInspo.map((img: any, idx: number) => (
                         <a key={idx} href={img.link || '#'} target="_blank" rel="noopener noreferrer" className="block hover:opacity-90">
@@ -202,27 +339,8 @@ const StylistChat: React.FC<StylistChatProps> = ({ wardrobe, favorites, onToggle
                     </div>
                   )}
 
-                  {/* Shopping "Buy" buttons (new schema: missingItems with shoppingOptions) */}
-                  {!isUser && outfit?.missingItems && outfit.missingItems.length > 0 && (
-                    <div className="mt-3 space-y-3">
-                      {outfit.missingItems.map((miss, i) => (
-                        <div key={miss.id || i} className="p-3 border rounded-xl bg-white shadow-sm">
-                          <div className="font-medium">{miss.name}</div>
-                          {miss.pinterestQuery && <div className="text-xs text-stone-500">{miss.pinterestQuery}</div>}
-                          <div className="flex gap-2 mt-2 flex-wrap">
-                            {(miss.shoppingOptions || []).map((opt, j) => (
-                              <a key={j} href={opt.url} target="_blank" rel="noopener noreferrer" className="px-3 py-1 text-sm rounded-md bg-stone-900 text-white hover:bg-stone-700">
-                                Buy on {opt.storeName}
-                              </a>
-                            ))}
-                          </div>
-                        </div>
-                      ))}
-                    </div>
-                  )}
-
                   {/* Shopping fallback (legacy: data.shopping) */}
-                  {!isUser && !outfit?.missingItems && Array.isArray(legacyShopping) && legacyShopping.length > 0 && (
+                  {!isUser && !data?.outfits && Array.isArray(legacyShopping) && legacyShopping.length > 0 && (
                     <div className="mt-3 space-y-3">
                       {legacyShopping.map((item: any, i: number) => (
                         <div key={i} className="p-3 border rounded-xl bg-white shadow-sm">
@@ -240,6 +358,17 @@ const StylistChat: React.FC<StylistChatProps> = ({ wardrobe, favorites, onToggle
                     </div>
                   )}
 
+                  {/* Regenerate the latest answer, bypassing the cache */}
+                  {!isUser && data && !msg.error && msg === messages[messages.length - 1] && messages[messages.length - 2]?.role === 'user' && (
+                    <button
+                      onClick={() => handleRegenerate(msg)}
+                      disabled={isLoading}
+                      className="self-start flex items-center gap-1 text-[11px] text-stone-400 hover:text-stone-600 disabled:opacity-50"
+                    >
+                      <RotateCw className="w-3 h-3" /> Regenerate
+                    </button>
+                  )}
+
                   {/* Suggestions (quick-replies) */}
                   {!isUser && data?.suggestions && data.suggestions.length > 0 && (
                     <div className="flex flex-wrap gap-2 mt-2">
@@ -264,8 +393,8 @@ const StylistChat: React.FC<StylistChatProps> = ({ wardrobe, favorites, onToggle
         {/* Bottom ref */}
         <div ref={messagesEndRef} />
 
-        {/* Loading Bubble */}
-        {isLoading && (
+        {/* Loading Bubble (until the first words arrive) */}
+        {isLoading && !streamingReply?.content && (
           <div className="flex justify-start">
             <div className="flex gap-3 max-w-[80%]">
               <div className="w-8 h-8 shrink-0 rounded-full bg-stone-900 text-white flex items-center justify-center">
@@ -297,13 +426,24 @@ const StylistChat: React.FC<StylistChatProps> = ({ wardrobe, favorites, onToggle
             className="flex-1 bg-stone-50 border border-stone-200 text-stone-800 placeholder-stone-400 rounded-xl px-4 py-3 focus:ring-2 focus:ring-stone-500"
             disabled={isLoading}
           />
-          <button
-            type="submit"
-            disabled={!input.trim() || isLoading}
-            className="bg-stone-900 text-white p-3 rounded-xl hover:bg-stone-800 disabled:opacity-50"
-          >
-            <Send className="w-5 h-5" />
-          </button>
+          {isLoading ? (
+            <button
+              type="button"
+              onClick={handleStop}
+              title="Stop generating"
+              className="bg-stone-900 text-white p-3 rounded-xl hover:bg-stone-800"
+            >
+              <Square className="w-5 h-5 fill-current" />
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={!input.trim()}
+              className="bg-stone-900 text-white p-3 rounded-xl hover:bg-stone-800 disabled:opacity-50"
+            >
+              <Send className="w-5 h-5" />
+            </button>
+          )}
         </form>
       </div>
     </div>
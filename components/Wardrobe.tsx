@@ -1,81 +1,102 @@
-import React, { useState, useRef } from 'react';
-import { ClothingItem, ChartData } from '../types';
-import { analyzeClothingImage } from '../services/geminiService';
-import { Upload, Plus, Trash2, Tag, Loader2 } from 'lucide-react';
-import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend } from 'recharts';
+import React, { useState, useRef, useMemo, useEffect } from 'react';
+import { ClothingItem, IngestJob, OutfitCardData, WardrobeFilters, WearEvent } from '../types';
+import { applyFilters } from '../services/filterService';
+import { extractPalette, primaryColorName } from '../services/colorService';
+import {
+  addJobManually,
+  connectIngest,
+  dismissJobs,
+  enqueueFiles,
+  resolveDuplicate,
+  retryJobs,
+  subscribeIngest,
+} from '../services/ingestService';
+import { computeWearStats, formatLastWorn, toDateKey } from '../services/wearService';
+import ItemEditor from './ItemEditor';
+import DuplicatePrompt from './DuplicatePrompt';
+import WardrobeFilterBar from './WardrobeFilterBar';
+import WardrobeAnalytics from './WardrobeAnalytics';
+import IngestQueue from './IngestQueue';
+import { Upload, Plus, Trash2, Tag, Loader2, Pencil, Check } from 'lucide-react';
 
 interface WardrobeProps {
   items: ClothingItem[];
   onAddItem: (item: ClothingItem) => void;
   onRemoveItem: (id: string) => void;
+  onUpdateItem: (item: ClothingItem) => void;
+  onPatchItem: (id: string, patch: Partial<ClothingItem>) => void;
+  filters: WardrobeFilters;
+  onFiltersChange: (filters: WardrobeFilters) => void;
+  wearLog: WearEvent[];
+  onLogWear: (itemId: string) => void;
+  stylistOutfits: OutfitCardData[];
 }
 
-const COLORS = ['#A8A29E', '#78716C', '#57534E', '#D6D3D1', '#E7E5E4', '#F5F5F4'];
-
-const Wardrobe: React.FC<WardrobeProps> = ({ items, onAddItem, onRemoveItem }) => {
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState<{ current: number; total: number } | null>(null);
+const Wardrobe: React.FC<WardrobeProps> = ({ items, onAddItem, onRemoveItem, onUpdateItem, onPatchItem, filters, onFiltersChange, wearLog, onLogWear, stylistOutfits }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [jobs, setJobs] = useState<IngestJob[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const files = event.target.files;
-    if (!files || files.length === 0) return;
-
-    setIsAnalyzing(true);
-    setUploadProgress({ current: 0, total: files.length });
+  // The upload queue outlives this view; it reaches the latest props through a ref
+  const latest = useRef({ items, onAddItem, onUpdateItem });
+  latest.current = { items, onAddItem, onUpdateItem };
+  useEffect(() => {
+    const unsubscribe = subscribeIngest(setJobs);
+    const disconnect = connectIngest({
+      getItems: () => latest.current.items,
+      addItem: (item) => latest.current.onAddItem(item),
+      updateItem: (item) => latest.current.onUpdateItem(item),
+    });
+    return () => {
+      unsubscribe();
+      disconnect();
+    };
+  }, []);
 
-    // Explicitly cast to File[] to avoid 'unknown' type inference issues
-    const fileArray: File[] = Array.from(files);
-
-    for (let i = 0; i < fileArray.length; i++) {
-      const file = fileArray[i];
-      // Update progress
-      setUploadProgress({ current: i + 1, total: fileArray.length });
-
-      try {
-        const base64String = await new Promise<string>((resolve, reject) => {
-          const reader = new FileReader();
-          reader.onloadend = () => resolve(reader.result as string);
-          reader.onerror = reject;
-          reader.readAsDataURL(file);
-        });
-        
-        // Analyze with Gemini
-        const analysis = await analyzeClothingImage(base64String);
-        
-        const newItem: ClothingItem = {
-          id: crypto.randomUUID(),
-          image: base64String,
-          category: analysis.category || "Unknown",
-          color: analysis.color || "Unknown",
-          season: analysis.season || [],
-          style: analysis.style || [],
-          description: analysis.description
-        };
-
-        onAddItem(newItem);
-      } catch (error) {
-        console.error(`Failed to analyze image ${file.name}`, error);
-        // We continue processing other files even if one fails
+  // Backfill swatches for items saved before color extraction existed
+  const paletteAttempted = useRef(new Set<string>());
+  useEffect(() => {
+    const pending = items.filter(item => !item.palette && (item.thumbnail || item.image) && !paletteAttempted.current.has(item.id));
+    if (!pending.length) return;
+    pending.forEach(item => paletteAttempted.current.add(item.id));
+    (async () => {
+      for (const item of pending) {
+        try {
+          const palette = await extractPalette(item.thumbnail || item.image);
+          // A new photo brings its own swatches; don't overwrite them with these
+          const current = latest.current.items.find(i => i.id === item.id);
+          if (palette.length && current && !current.palette) onPatchItem(item.id, { palette });
+        } catch (error) {
+          console.error(`Color extraction failed for ${item.id}`, error);
+        }
       }
-    }
+    })();
+  }, [items, onPatchItem]);
 
-    setIsAnalyzing(false);
-    setUploadProgress(null);
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = event.target.files;
+    if (!files || files.length === 0) return;
+    // Explicitly cast to File[] to avoid 'unknown' type inference issues
+    enqueueFiles(Array.from(files) as File[]);
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
-  // Prepare chart data
-  const categoryData = items.reduce((acc: Record<string, number>, item) => {
-    acc[item.category] = (acc[item.category] || 0) + 1;
-    return acc;
-  }, {});
+  const handleAddManually = async (jobId: string) => {
+    const itemId = await addJobManually(jobId);
+    if (itemId) setEditingId(itemId);
+  };
+
+  const activeJobs = jobs.filter(job => job.status === 'pending' || job.status === 'analyzing');
+  const settledCount = jobs.filter(job => job.status !== 'pending' && job.status !== 'analyzing').length;
+  const isAnalyzing = activeJobs.length > 0;
+  const pendingDuplicate = jobs.find(job => job.status === 'duplicate' && job.thumbnail);
+  const duplicateOf = pendingDuplicate && items.find(item => item.id === pendingDuplicate.duplicateOf);
 
-  const chartData: ChartData[] = Object.keys(categoryData).map((key, index) => ({
-    name: key,
-    value: categoryData[key],
-    fill: COLORS[index % COLORS.length]
-  }));
+  const wearStats = useMemo(() => computeWearStats(items, wearLog), [items, wearLog]);
+  const today = toDateKey();
+
+  const visibleItems = useMemo(() => applyFilters(items, filters), [items, filters]);
+  const editingItem = editingId ? items.find(item => item.id === editingId) : undefined;
 
   return (
     <div className="space-y-8 animate-fade-in">
@@ -83,7 +104,11 @@ const Wardrobe: React.FC<WardrobeProps> = ({ items, onAddItem, onRemoveItem }) =
       <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
         <div>
           <h2 className="text-2xl font-bold text-stone-800">My Wardrobe</h2>
-          <p className="text-stone-500">Manage your collection ({items.length} items)</p>
+          <p className="text-stone-500">
+            Manage your collection ({visibleItems.length === items.length
+              ? `${items.length} items`
+              : `showing ${visibleItems.length} of ${items.length}`})
+          </p>
         </div>
         
         <div className="relative">
@@ -97,64 +122,43 @@ const Wardrobe: React.FC<WardrobeProps> = ({ items, onAddItem, onRemoveItem }) =
           />
           <button
             onClick={() => fileInputRef.current?.click()}
-            disabled={isAnalyzing}
-            className="flex items-center gap-2 bg-stone-900 hover:bg-stone-800 text-white px-6 py-3 rounded-xl transition-all shadow-md disabled:opacity-70 disabled:cursor-wait"
+            className="flex items-center gap-2 bg-stone-900 hover:bg-stone-800 text-white px-6 py-3 rounded-xl transition-all shadow-md"
           >
             {isAnalyzing ? (
               <Loader2 className="w-5 h-5 animate-spin" />
             ) : (
               <Plus className="w-5 h-5" />
             )}
-            {isAnalyzing && uploadProgress 
-              ? `Analyzing ${uploadProgress.current}/${uploadProgress.total}...` 
+            {isAnalyzing
+              ? `Analyzing ${settledCount}/${jobs.length}...`
               : 'Add Items'}
           </button>
         </div>
       </div>
 
       {/* Progress Indicator (Optional visual feedback below header) */}
-      {isAnalyzing && uploadProgress && (
+      {isAnalyzing && (
         <div className="w-full bg-stone-100 rounded-full h-1.5 overflow-hidden">
           <div 
             className="bg-stone-800 h-full transition-all duration-300 ease-out"
-            style={{ width: `${(uploadProgress.current / uploadProgress.total) * 100}%` }}
+            style={{ width: `${(settledCount / jobs.length) * 100}%` }}
           />
         </div>
       )}
 
-      {/* Stats Section */}
+      {/* Upload queue */}
+      {jobs.length > 0 && (
+        <IngestQueue jobs={jobs} onRetry={retryJobs} onAddManually={handleAddManually} onDismiss={dismissJobs} />
+      )}
+
+      {/* Analytics */}
       {items.length > 0 && (
-        <div className="bg-white p-6 rounded-2xl shadow-sm border border-stone-100 flex flex-col md:flex-row gap-8 items-center">
-          <div className="flex-1 w-full h-64">
-            <h3 className="text-lg font-semibold mb-4 text-stone-700">Category Breakdown</h3>
-             <ResponsiveContainer width="100%" height="100%">
-                <PieChart>
-                  <Pie
-                    data={chartData}
-                    cx="50%"
-                    cy="50%"
-                    innerRadius={60}
-                    outerRadius={80}
-                    paddingAngle={5}
-                    dataKey="value"
-                  >
-                    {chartData.map((entry, index) => (
-                      <Cell key={`cell-${index}`} fill={entry.fill} stroke="none" />
-                    ))}
-                  </Pie>
-                  <Tooltip />
-                  <Legend verticalAlign="bottom" height={36}/>
-                </PieChart>
-              </ResponsiveContainer>
-          </div>
-          <div className="flex-1 space-y-2 text-stone-600">
-             <p className="text-sm">
-               💡 <strong>Style Tip:</strong> You have a strong collection of 
-               <span className="font-semibold text-stone-800"> {chartData.sort((a,b) => b.value - a.value)[0]?.name}</span>. 
-               Consider adding more variety in colors to expand your outfit options!
-             </p>
-          </div>
-        </div>
+        <WardrobeAnalytics items={items} outfits={stylistOutfits} wearLog={wearLog} />
+      )}
+
+      {/* Search & Filters */}
+      {items.length > 0 && (
+        <WardrobeFilterBar items={items} filters={filters} onChange={onFiltersChange} />
       )}
 
       {/* Grid */}
@@ -164,16 +168,29 @@ const Wardrobe: React.FC<WardrobeProps> = ({ items, onAddItem, onRemoveItem }) =
           <p className="text-lg text-stone-500">Your wardrobe is empty.</p>
           <p className="text-sm text-stone-400">Upload photos of your clothes to get started.</p>
         </div>
+      ) : visibleItems.length === 0 ? (
+        <div className="text-center py-16 bg-white rounded-3xl border border-stone-100">
+          <p className="text-stone-500">No items match these filters.</p>
+        </div>
       ) : (
         <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
-          {items.map((item) => (
+          {visibleItems.map((item) => (
             <div key={item.id} className="group relative bg-white rounded-2xl shadow-sm border border-stone-100 overflow-hidden transition-all hover:shadow-lg">
               <div className="aspect-square relative overflow-hidden bg-stone-50">
                 <img
-                  src={item.image}
+                  src={item.thumbnail || item.image}
                   alt={item.category}
-                  className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-105"
+                  loading="lazy"
+                  onClick={() => setEditingId(item.id)}
+                  className="w-full h-full object-cover cursor-pointer transition-transform duration-500 group-hover:scale-105"
                 />
+                <button
+                  onClick={() => setEditingId(item.id)}
+                  className="absolute top-2 left-2 bg-white/90 p-2 rounded-full text-stone-600 opacity-0 group-hover:opacity-100 transition-opacity hover:bg-stone-50"
+                  title="Edit Item"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
                 <button
                   onClick={() => onRemoveItem(item.id)}
                   className="absolute top-2 right-2 bg-white/90 p-2 rounded-full text-red-500 opacity-0 group-hover:opacity-100 transition-opacity hover:bg-red-50"
@@ -185,7 +202,21 @@ const Wardrobe: React.FC<WardrobeProps> = ({ items, onAddItem, onRemoveItem }) =
               <div className="p-4">
                 <div className="flex justify-between items-start mb-2">
                   <h3 className="font-semibold text-stone-800 capitalize">{item.category}</h3>
-                  <span className="text-xs text-stone-500 bg-stone-100 px-2 py-1 rounded-full">{item.color}</span>
+                  <span className="flex items-center gap-1.5 text-xs text-stone-500 bg-stone-100 px-2 py-1 rounded-full" title={item.color}>
+                    {item.palette && item.palette.length > 0 && (
+                      <span className="flex -space-x-1">
+                        {item.palette.map(swatch => (
+                          <span
+                            key={swatch.hex}
+                            className="w-3 h-3 rounded-full border border-white"
+                            style={{ backgroundColor: swatch.hex }}
+                            title={`${swatch.name} ${swatch.hex}`}
+                          />
+                        ))}
+                      </span>
+                    )}
+                    {primaryColorName(item)}
+                  </span>
                 </div>
                 <div className="flex flex-wrap gap-1 mt-2">
                   {item.style.slice(0, 3).map((tag, i) => (
@@ -194,11 +225,54 @@ const Wardrobe: React.FC<WardrobeProps> = ({ items, onAddItem, onRemoveItem }) =
                     </span>
                   ))}
                 </div>
+                <div className="flex items-center justify-between gap-2 mt-3 pt-3 border-t border-stone-100">
+                  <div className="text-[10px] text-stone-500 leading-tight">
+                    <div>{formatLastWorn(wearStats[item.id]?.lastWorn, today)}</div>
+                    {wearStats[item.id]?.wearCount > 0 && (
+                      <div>
+                        {wearStats[item.id].wearCount}× worn
+                        {wearStats[item.id].costPerWear !== undefined &&
+                          ` · ${wearStats[item.id].costPerWear!.toLocaleString()}/wear`}
+                      </div>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => onLogWear(item.id)}
+                    disabled={wearStats[item.id]?.lastWorn === today}
+                    className="flex items-center gap-1 text-[10px] font-medium px-2 py-1 rounded-md border border-stone-200 text-stone-600 hover:bg-stone-50 disabled:border-green-200 disabled:text-green-600 disabled:hover:bg-transparent"
+                  >
+                    <Check className="w-3 h-3" />
+                    {wearStats[item.id]?.lastWorn === today ? 'Worn' : 'Wore this'}
+                  </button>
+                </div>
               </div>
             </div>
           ))}
         </div>
       )}
+
+      {pendingDuplicate && duplicateOf && (
+        <DuplicatePrompt
+          key={pendingDuplicate.id}
+          newImage={pendingDuplicate.thumbnail!}
+          fileName={pendingDuplicate.fileName}
+          existing={duplicateOf}
+          remaining={activeJobs.length + jobs.filter(job => job.status === 'duplicate').length - 1}
+          onChoose={(choice, applyToAll) => resolveDuplicate(pendingDuplicate.id, choice, applyToAll)}
+        />
+      )}
+
+      {editingItem && (
+        <ItemEditor
+          key={editingItem.id}
+          item={editingItem}
+          onClose={() => setEditingId(null)}
+          onSave={(updated) => {
+            onUpdateItem(updated);
+            setEditingId(null);
+          }}
+        />
+      )}
     </div>
   );
 };
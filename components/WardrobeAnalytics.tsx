@@ -0,0 +1,135 @@
+import React, { useMemo } from 'react';
+import { ClothingItem, OutfitCardData, WearEvent } from '../types';
+import { computeAnalytics, CountEntry, WardrobeInsight } from '../services/analyticsService';
+import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend, BarChart, Bar, XAxis, YAxis } from 'recharts';
+import { AlertCircle, Scale, TrendingUp } from 'lucide-react';
+
+interface WardrobeAnalyticsProps {
+  items: ClothingItem[];
+  outfits: OutfitCardData[]; // Every outfit the stylist has proposed, incl. favorites
+  wearLog: WearEvent[];
+}
+
+const COLORS = ['#A8A29E', '#78716C', '#57534E', '#D6D3D1', '#E7E5E4', '#F5F5F4'];
+
+const INSIGHT_ICONS: Record<WardrobeInsight['kind'], React.ElementType> = {
+  gap: AlertCircle,
+  balance: Scale,
+  usage: TrendingUp,
+};
+
+const DonutCard = ({ title, data }: { title: string; data: CountEntry[] }) => (
+  <div className="bg-white p-5 rounded-2xl shadow-sm border border-stone-100 h-72">
+    <h3 className="text-sm font-semibold mb-2 text-stone-700">{title}</h3>
+    <ResponsiveContainer width="100%" height="90%">
+      <PieChart>
+        <Pie data={data} cx="50%" cy="45%" innerRadius={50} outerRadius={70} paddingAngle={4} dataKey="value">
+          {data.map((entry, index) => (
+            <Cell key={`cell-${index}`} fill={entry.fill || COLORS[index % COLORS.length]} stroke="#e7e5e4" />
+          ))}
+        </Pie>
+        <Tooltip />
+        <Legend verticalAlign="bottom" height={36} wrapperStyle={{ fontSize: 11 }} />
+      </PieChart>
+    </ResponsiveContainer>
+  </div>
+);
+
+const BarCard = ({ title, data }: { title: string; data: CountEntry[] }) => (
+  <div className="bg-white p-5 rounded-2xl shadow-sm border border-stone-100 h-72">
+    <h3 className="text-sm font-semibold mb-2 text-stone-700">{title}</h3>
+    <ResponsiveContainer width="100%" height="90%">
+      <BarChart data={data} margin={{ top: 8, right: 8, left: -24, bottom: 0 }}>
+        <XAxis dataKey="name" tick={{ fontSize: 11 }} interval={0} />
+        <YAxis allowDecimals={false} tick={{ fontSize: 11 }} />
+        <Tooltip cursor={{ fill: '#f5f5f4' }} />
+        <Bar dataKey="value" fill="#57534E" radius={[6, 6, 0, 0]} />
+      </BarChart>
+    </ResponsiveContainer>
+  </div>
+);
+
+const ItemStrip = ({ items, caption }: { items: { item: ClothingItem; note?: string }[]; caption: string }) => (
+  <div className="bg-white p-5 rounded-2xl shadow-sm border border-stone-100">
+    <h3 className="text-sm font-semibold mb-3 text-stone-700">{caption}</h3>
+    {items.length === 0 ? (
+      <p className="text-xs text-stone-400">Nothing here yet.</p>
+    ) : (
+      <div className="flex gap-3 overflow-x-auto pb-1">
+        {items.map(({ item, note }) => (
+          <div key={item.id} className="w-20 shrink-0">
+            <div className="aspect-square rounded-lg overflow-hidden bg-stone-50 border border-stone-100">
+              <img src={item.thumbnail || item.image} alt={item.category} className="w-full h-full object-cover" />
+            </div>
+            <p className="text-[10px] text-stone-600 mt-1 truncate capitalize">{item.color} {item.category}</p>
+            {note && <p className="text-[10px] text-stone-400 truncate">{note}</p>}
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+const WardrobeAnalytics: React.FC<WardrobeAnalyticsProps> = ({ items, outfits, wearLog }) => {
+  const analytics = useMemo(() => computeAnalytics(items, outfits, wearLog), [items, outfits, wearLog]);
+
+  return (
+    <div className="space-y-4">
+      {/* Insights */}
+      {analytics.insights.length > 0 && (
+        <div className="bg-white p-5 rounded-2xl shadow-sm border border-stone-100">
+          <h3 className="text-sm font-semibold mb-3 text-stone-700">Insights</h3>
+          <ul className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {analytics.insights.map((insight, i) => {
+              const Icon = INSIGHT_ICONS[insight.kind];
+              return (
+                <li key={i} className="flex items-start gap-2 text-sm text-stone-600">
+                  <Icon className={`w-4 h-4 mt-0.5 shrink-0 ${insight.kind === 'gap' ? 'text-amber-500' : 'text-stone-400'}`} />
+                  {insight.message}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      {/* Charts */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <DonutCard title="Categories" data={analytics.categories} />
+        <DonutCard title="Colors" data={analytics.colors} />
+        <BarCard title="Season Coverage" data={analytics.seasons} />
+        <BarCard title="Formality Mix" data={analytics.formality} />
+      </div>
+
+      {analytics.styles.length > 0 && (
+        <div className="bg-white p-5 rounded-2xl shadow-sm border border-stone-100">
+          <h3 className="text-sm font-semibold mb-3 text-stone-700">Style Mix</h3>
+          <div className="flex flex-wrap gap-2">
+            {analytics.styles.map(style => (
+              <span key={style.name} className="text-xs text-stone-600 bg-stone-100 px-2.5 py-1 rounded-full">
+                {style.name} <span className="text-stone-400">{style.value}</span>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Usage */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <ItemStrip
+          caption="Most Used"
+          items={analytics.mostUsed.map(entry => ({
+            item: entry.item,
+            note: `${entry.wearCount}× worn · ${entry.stylistPicks} picks`,
+          }))}
+        />
+        <ItemStrip
+          caption={`Never Chosen by the Stylist (${analytics.neverChosen.length})`}
+          items={analytics.neverChosen.slice(0, 12).map(item => ({ item }))}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default WardrobeAnalytics;
@@ -0,0 +1,106 @@
+import React, { useMemo } from 'react';
+import { ClothingItem, WardrobeFacet, WardrobeFilters, WardrobeSort } from '../types';
+import { FACETS, buildFacetOptions, createEmptyFilters, hasActiveFilters } from '../services/filterService';
+import { Search, X } from 'lucide-react';
+
+interface WardrobeFilterBarProps {
+  items: ClothingItem[];
+  filters: WardrobeFilters;
+  onChange: (filters: WardrobeFilters) => void;
+}
+
+const FACET_LABELS: Record<WardrobeFacet, string> = {
+  category: 'Category',
+  color: 'Color',
+  season: 'Season',
+  style: 'Style',
+};
+
+const SORT_OPTIONS: { value: WardrobeSort; label: string }[] = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'category', label: 'Category' },
+  { value: 'color', label: 'Color' },
+];
+
+const WardrobeFilterBar: React.FC<WardrobeFilterBarProps> = ({ items, filters, onChange }) => {
+  const facetOptions = useMemo(() => buildFacetOptions(items, filters), [items, filters]);
+
+  const toggleFacet = (facet: WardrobeFacet, key: string) => {
+    const selected = filters.facets[facet];
+    onChange({
+      ...filters,
+      facets: {
+        ...filters.facets,
+        [facet]: selected.includes(key) ? selected.filter(k => k !== key) : [...selected, key],
+      },
+    });
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-2xl shadow-sm border border-stone-100 space-y-4">
+      <div className="flex flex-col md:flex-row gap-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-stone-400" />
+          <input
+            type="text"
+            value={filters.query}
+            onChange={(e) => onChange({ ...filters, query: e.target.value })}
+            placeholder="Search descriptions, e.g. 'linen' or 'striped'..."
+            className="w-full pl-9 pr-4 py-2.5 rounded-xl border border-stone-200 text-sm focus:ring-2 focus:ring-stone-500 focus:border-transparent outline-none"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="text-xs text-stone-500">Sort</label>
+          <select
+            value={filters.sort}
+            onChange={(e) => onChange({ ...filters, sort: e.target.value as WardrobeSort })}
+            className="px-3 py-2.5 rounded-xl border border-stone-200 text-sm bg-white"
+          >
+            {SORT_OPTIONS.map(opt => (
+              <option key={opt.value} value={opt.value}>{opt.label}</option>
+            ))}
+          </select>
+          {hasActiveFilters(filters) && (
+            <button
+              onClick={() => onChange({ ...createEmptyFilters(), sort: filters.sort })}
+              className="flex items-center gap-1 text-xs text-stone-500 hover:text-stone-800 px-2 py-2"
+            >
+              <X className="w-3 h-3" /> Clear
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        {FACETS.map(facet => (
+          facetOptions[facet].length > 0 && (
+            <div key={facet}>
+              <h4 className="text-xs font-medium text-stone-500 uppercase tracking-wide mb-2">{FACET_LABELS[facet]}</h4>
+              <div className="flex flex-wrap gap-1.5 max-h-24 overflow-y-auto">
+                {facetOptions[facet].map(opt => {
+                  const active = filters.facets[facet].includes(opt.key);
+                  return (
+                    <button
+                      key={opt.key}
+                      onClick={() => toggleFacet(facet, opt.key)}
+                      disabled={!active && opt.count === 0}
+                      className={`text-xs px-2.5 py-1 rounded-full border capitalize transition-all disabled:opacity-40 ${
+                        active
+                          ? 'bg-stone-900 text-white border-stone-900'
+                          : 'bg-white text-stone-600 border-stone-200 hover:border-stone-400'
+                      }`}
+                    >
+                      {opt.label} <span className={active ? 'text-stone-300' : 'text-stone-400'}>{opt.count}</span>
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          )
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default WardrobeFilterBar;
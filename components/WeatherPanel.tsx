@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { Precipitation, WeatherContext } from '../types';
+import { PRECIPITATION_LABELS, createManualWeather, describeWeather } from '../services/weatherService';
+import { CloudSun, Pencil, X } from 'lucide-react';
+
+interface WeatherPanelProps {
+  weather: WeatherContext | null;
+  // `null` drops the typed-in weather and goes back to the forecast
+  onChange: (weather: WeatherContext | null) => void;
+}
+
+const PRECIPITATION: Precipitation[] = ['none', 'rain', 'snow'];
+
+// The weather outfits will be picked for, with a form to type it in.
+const WeatherPanel: React.FC<WeatherPanelProps> = ({ weather, onChange }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [minTemp, setMinTemp] = useState('');
+  const [maxTemp, setMaxTemp] = useState('');
+  const [precipitation, setPrecipitation] = useState<Precipitation>('none');
+  const [wind, setWind] = useState('');
+
+  const startEdit = () => {
+    setMinTemp(weather ? String(weather.minTempC) : '');
+    setMaxTemp(weather ? String(weather.maxTempC) : '');
+    setPrecipitation(weather?.precipitation || 'none');
+    setWind(weather ? String(weather.windKph) : '');
+    setIsEditing(true);
+  };
+
+  const min = Number.parseFloat(minTemp);
+  const max = Number.parseFloat(maxTemp);
+  // One temperature is enough; it stands for both ends
+  const canSave = Number.isFinite(min) || Number.isFinite(max);
+
+  const save = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave) return;
+    onChange(
+      createManualWeather({
+        minTempC: Number.isFinite(min) ? min : max,
+        maxTempC: Number.isFinite(max) ? max : min,
+        precipitation,
+        windKph: Number.parseFloat(wind) || 0,
+      })
+    );
+    setIsEditing(false);
+  };
+
+  const inputClass = 'w-full px-2 py-1.5 rounded-lg border border-stone-200 text-xs outline-none focus:ring-2 focus:ring-stone-300';
+
+  return (
+    <div className="bg-white rounded-2xl border border-stone-100 px-4 py-3 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 min-w-0 text-stone-600">
+          <CloudSun className="w-4 h-4 shrink-0 text-stone-400" />
+          {weather ? (
+            <span className="truncate">
+              {describeWeather(weather)}
+              <span className="text-stone-400"> · {weather.source === 'manual' ? 'your entry' : 'forecast'}</span>
+            </span>
+          ) : (
+            <span className="text-stone-400">Weather unknown</span>
+          )}
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          {weather?.source === 'manual' && !isEditing && (
+            <button
+              onClick={() => onChange(null)}
+              className="p-1 rounded-md text-stone-400 hover:text-stone-800 hover:bg-stone-100"
+              title="Clear the weather you typed in"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          )}
+          <button
+            onClick={() => (isEditing ? setIsEditing(false) : startEdit())}
+            className="flex items-center gap-1 px-2 py-1 rounded-md text-xs text-stone-500 hover:text-stone-800 hover:bg-stone-100"
+          >
+            <Pencil className="w-3 h-3" /> {isEditing ? 'Cancel' : weather ? 'Change' : 'Set weather'}
+          </button>
+        </div>
+      </div>
+
+      {isEditing && (
+        <form onSubmit={save} className="grid grid-cols-2 sm:grid-cols-5 gap-2 mt-3 items-end">
+          <label className="text-[11px] text-stone-500 space-y-1">
+            <span>Low °C</span>
+            <input type="number" value={minTemp} onChange={(e) => setMinTemp(e.target.value)} className={inputClass} />
+          </label>
+          <label className="text-[11px] text-stone-500 space-y-1">
+            <span>High °C</span>
+            <input type="number" value={maxTemp} onChange={(e) => setMaxTemp(e.target.value)} className={inputClass} />
+          </label>
+          <label className="text-[11px] text-stone-500 space-y-1">
+            <span>Precipitation</span>
+            <select
+              value={precipitation}
+              onChange={(e) => setPrecipitation(e.target.value as Precipitation)}
+              className={`${inputClass} bg-white`}
+            >
+              {PRECIPITATION.map(p => <option key={p} value={p}>{PRECIPITATION_LABELS[p]}</option>)}
+            </select>
+          </label>
+          <label className="text-[11px] text-stone-500 space-y-1">
+            <span>Wind km/h</span>
+            <input type="number" min={0} value={wind} onChange={(e) => setWind(e.target.value)} className={inputClass} />
+          </label>
+          <button
+            type="submit"
+            disabled={!canSave}
+            className="col-span-2 sm:col-span-1 bg-stone-900 text-white py-1.5 rounded-lg text-xs font-medium hover:bg-stone-800 disabled:opacity-50"
+          >
+            Save
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default WeatherPanel;
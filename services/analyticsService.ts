@@ -0,0 +1,208 @@
+import { CategoryGroup, ClothingItem, Formality, OutfitCardData, Season, WearEvent } from "../types";
+import { NAMED_COLORS, primaryColorName } from "./colorService";
+import {
+  FORMALITY_LABELS,
+  FORMALITY_LEVELS,
+  SEASONS,
+  getCategoryGroup,
+} from "./taxonomyService";
+import { computeWearStats } from "./wearService";
+
+// ----------------------------------------
+// Wardrobe analytics
+// ----------------------------------------
+// Everything here is derived from the items, the wear log and the outfits
+// the stylist has proposed; nothing is canned text.
+
+export interface CountEntry {
+  name: string;
+  value: number;
+  fill?: string;
+}
+
+export interface UsageEntry {
+  item: ClothingItem;
+  wearCount: number;
+  stylistPicks: number;
+}
+
+export interface WardrobeInsight {
+  kind: "gap" | "balance" | "usage";
+  message: string;
+}
+
+export interface WardrobeAnalytics {
+  categories: CountEntry[];
+  colors: CountEntry[];
+  seasons: CountEntry[];
+  formality: CountEntry[];
+  styles: CountEntry[];
+  neverChosen: ClothingItem[];
+  mostUsed: UsageEntry[];
+  insights: WardrobeInsight[];
+}
+
+const NEUTRALS = new Set(["Black", "Charcoal", "Grey", "Light Grey", "White", "Cream", "Beige", "Khaki", "Tan", "Navy", "Brown"]);
+
+const COLD_SEASONS: Season[] = ["Autumn", "Winter"];
+
+const countBy = (values: string[]) => {
+  const counts = new Map<string, number>();
+  values.forEach((v) => counts.set(v, (counts.get(v) || 0) + 1));
+  return [...counts.entries()]
+    .map(([name, value]) => ({ name, value }))
+    .sort((a, b) => b.value - a.value || a.name.localeCompare(b.name));
+};
+
+const fitsSeason = (item: ClothingItem, season: Season) =>
+  item.season.includes(season) || item.season.includes("All-Season");
+
+const groupOf = (item: ClothingItem) => getCategoryGroup(item.category);
+
+const formalityOf = (item: ClothingItem): Formality => item.formality || "casual";
+
+const isDressy = (item: ClothingItem) => {
+  const level = formalityOf(item);
+  return level === "business" || level === "formal";
+};
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? "" : "s"}`;
+
+export const countStylistPicks = (outfits: OutfitCardData[]) => {
+  const picks: Record<string, number> = {};
+  // The same outfit can appear both in chat and in favorites; count it once.
+  const seen = new Set<string>();
+  outfits.forEach((outfit) => {
+    if (seen.has(outfit.id)) return;
+    seen.add(outfit.id);
+    outfit.selectedItemIds.forEach((id) => (picks[id] = (picks[id] || 0) + 1));
+  });
+  return picks;
+};
+
+const findGaps = (items: ClothingItem[]): WardrobeInsight[] => {
+  const insights: WardrobeInsight[] = [];
+  const inGroup = (group: CategoryGroup) => items.filter((item) => groupOf(item) === group);
+
+  const outerwear = inGroup("outerwear");
+  COLD_SEASONS.forEach((season) => {
+    if (!outerwear.some((item) => fitsSeason(item, season))) {
+      insights.push({ kind: "gap", message: `No ${season.toLowerCase()} outerwear.` });
+    }
+  });
+
+  const formalShoes = inGroup("footwear").filter(isDressy);
+  if (formalShoes.length === 0) {
+    insights.push({ kind: "gap", message: "No formal shoes for office or dressy occasions." });
+  } else if (formalShoes.length === 1) {
+    insights.push({ kind: "gap", message: "Only one pair of formal shoes." });
+  }
+
+  const tops = inGroup("top").length;
+  const bottoms = inGroup("bottom").length;
+  const onePieces = inGroup("one-piece").length;
+  if (tops > 0 && bottoms === 0 && onePieces === 0) {
+    insights.push({ kind: "gap", message: `${plural(tops, "top")} but no bottoms to pair them with.` });
+  } else if (bottoms > 0 && tops >= bottoms * 4) {
+    insights.push({
+      kind: "balance",
+      message: `${plural(tops, "top")} share ${plural(bottoms, "bottom")}; another pair of trousers or a skirt would multiply your outfits.`,
+    });
+  }
+  if (inGroup("footwear").length === 0) {
+    insights.push({ kind: "gap", message: "No footwear uploaded yet." });
+  }
+
+  if (!items.some(isDressy)) {
+    insights.push({ kind: "gap", message: "Nothing business or formal for interviews, weddings or office days." });
+  }
+
+  SEASONS.filter((s) => s !== "All-Season").forEach((season) => {
+    const wearable = items.filter((item) => fitsSeason(item, season)).length;
+    if (wearable === 0) insights.push({ kind: "gap", message: `Nothing tagged for ${season.toLowerCase()}.` });
+  });
+
+  return insights;
+};
+
+const findBalance = (items: ClothingItem[], colors: CountEntry[]): WardrobeInsight[] => {
+  const insights: WardrobeInsight[] = [];
+  const neutralCount = colors.filter((c) => NEUTRALS.has(c.name)).reduce((sum, c) => sum + c.value, 0);
+  const neutralShare = neutralCount / items.length;
+  if (items.length >= 5 && neutralShare >= 0.8) {
+    insights.push({
+      kind: "balance",
+      message: `${Math.round(neutralShare * 100)}% of your wardrobe is neutral; one or two accent colors would add variety.`,
+    });
+  } else if (items.length >= 5 && neutralShare <= 0.2) {
+    insights.push({
+      kind: "balance",
+      message: "Very few neutral basics; a white, black or navy piece would tie your colors together.",
+    });
+  }
+  return insights;
+};
+
+const findUsage = (items: ClothingItem[], neverChosen: ClothingItem[], mostUsed: UsageEntry[]): WardrobeInsight[] => {
+  const insights: WardrobeInsight[] = [];
+  if (items.length >= 5 && neverChosen.length / items.length >= 0.5) {
+    insights.push({
+      kind: "usage",
+      message: `${plural(neverChosen.length, "item")} have never been picked by the stylist; ask for outfits built around them.`,
+    });
+  }
+  const top = mostUsed[0];
+  if (top && top.wearCount >= 5) {
+    insights.push({
+      kind: "usage",
+      message: `Your ${top.item.color} ${top.item.category} is your most worn piece (${top.wearCount}×).`,
+    });
+  }
+  return insights;
+};
+
+export const computeAnalytics = (
+  items: ClothingItem[],
+  outfits: OutfitCardData[],
+  wearLog: WearEvent[]
+): WardrobeAnalytics => {
+  const categories = countBy(items.map((item) => item.category));
+
+  const colors = countBy(items.map(primaryColorName)).map((entry) => ({
+    ...entry,
+    fill: NAMED_COLORS.find((c) => c.name === entry.name)?.hex,
+  }));
+
+  const seasons = SEASONS.filter((s) => s !== "All-Season").map((season) => ({
+    name: season,
+    value: items.filter((item) => fitsSeason(item, season)).length,
+  }));
+
+  const formality = FORMALITY_LEVELS.map((level) => ({
+    name: FORMALITY_LABELS[level],
+    value: items.filter((item) => formalityOf(item) === level).length,
+  }));
+
+  const styles = countBy(items.flatMap((item) => item.style));
+
+  const picks = countStylistPicks(outfits);
+  const wearStats = computeWearStats(items, wearLog);
+
+  const neverChosen = items.filter((item) => !picks[item.id]);
+
+  const mostUsed = items
+    .map((item) => ({
+      item,
+      wearCount: wearStats[item.id]?.wearCount || 0,
+      stylistPicks: picks[item.id] || 0,
+    }))
+    .filter((entry) => entry.wearCount > 0 || entry.stylistPicks > 0)
+    .sort((a, b) => b.wearCount - a.wearCount || b.stylistPicks - a.stylistPicks)
+    .slice(0, 5);
+
+  const insights = items.length
+    ? [...findGaps(items), ...findBalance(items, colors), ...findUsage(items, neverChosen, mostUsed)]
+    : [];
+
+  return { categories, colors, seasons, formality, styles, neverChosen, mostUsed, insights };
+};
@@ -0,0 +1,404 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate";
+import {
+  BackupData,
+  BackupImportMode,
+  BackupImportReport,
+  ChatMessage,
+  ClothingItem,
+  ConversationMemory,
+  OutfitCardData,
+  PlannedOutfit,
+  UserFact,
+  WearEvent,
+} from "../types";
+import { bytesToDataUrl, dataUrlToBytes } from "./imageService";
+import { normalizeClothingItem } from "./storageService";
+import { EMPTY_MEMORY, mergeFacts } from "./memoryService";
+
+// ----------------------------------------
+// Backup bundle
+// ----------------------------------------
+// A zip holding manifest.json plus one file per photo and thumbnail.
+// Photos are already WebP/JPEG, so entries are stored uncompressed.
+
+const BACKUP_FORMAT = "stylemate-backup";
+// v2 adds wear history, planned outfits and conversation memory.
+const BACKUP_VERSION = 2;
+const MANIFEST_FILE = "manifest.json";
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BackupError";
+  }
+}
+
+type ManifestItem = Omit<ClothingItem, "image" | "thumbnail"> & {
+  image?: string; // Only for non-embedded images (plain URLs)
+  imageFile?: string;
+  thumbnailFile?: string;
+};
+
+interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  wardrobe: ManifestItem[];
+  favorites: OutfitCardData[];
+  messages: ChatMessage[];
+  wearEvents: WearEvent[];
+  plans: PlannedOutfit[];
+  memory?: ConversationMemory;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  "image/webp": "webp",
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+};
+
+const MIME_TYPES: Record<string, string> = Object.fromEntries(
+  Object.entries(EXTENSIONS).map(([mime, ext]) => [ext, mime])
+);
+
+// ----------------------------------------
+// Export
+// ----------------------------------------
+export const exportBackup = (data: BackupData): Blob => {
+  const files: Record<string, Uint8Array> = {};
+
+  const addImage = (folder: string, index: number, id: string, dataUrl?: string) => {
+    const decoded = dataUrl ? dataUrlToBytes(dataUrl) : null;
+    if (!decoded) return undefined;
+    const safeId = id.replace(/[^\w-]/g, "_");
+    const name = `${folder}/${index}-${safeId}.${EXTENSIONS[decoded.mimeType] || "bin"}`;
+    files[name] = decoded.bytes;
+    return name;
+  };
+
+  const wardrobe: ManifestItem[] = data.wardrobe.map(({ image, thumbnail, ...meta }, index) => {
+    const imageFile = addImage("images", index, meta.id, image);
+    return {
+      ...meta,
+      ...(imageFile ? { imageFile } : image ? { image } : {}),
+      thumbnailFile: addImage("thumbnails", index, meta.id, thumbnail),
+    };
+  });
+
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    wardrobe,
+    favorites: data.favorites,
+    messages: data.messages,
+    wearEvents: data.wearLog,
+    plans: data.plans,
+    memory: data.memory,
+  };
+  files[MANIFEST_FILE] = strToU8(JSON.stringify(manifest, null, 2));
+
+  return new Blob([zipSync(files, { level: 0 })], { type: "application/zip" });
+};
+
+// ----------------------------------------
+// Validation
+// ----------------------------------------
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((v) => typeof v === "string");
+
+const isClothingItem = (raw: unknown): boolean =>
+  isObject(raw) &&
+  typeof raw.id === "string" &&
+  typeof raw.category === "string" &&
+  typeof raw.color === "string" &&
+  isStringArray(raw.season) &&
+  isStringArray(raw.style);
+
+const toOutfitCardData = (raw: unknown): OutfitCardData | null => {
+  if (!isObject(raw) || typeof raw.id !== "string" || !isStringArray(raw.selectedItemIds)) {
+    return null;
+  }
+  return {
+    ...raw,
+    id: raw.id,
+    title: typeof raw.title === "string" ? raw.title : "Saved Outfit",
+    description: typeof raw.description === "string" ? raw.description : "",
+    matchScore: typeof raw.matchScore === "number" ? raw.matchScore : 0,
+    selectedItemIds: raw.selectedItemIds,
+    missingItems: Array.isArray(raw.missingItems) ? raw.missingItems.filter(isObject) : [],
+    pinterestLooks: Array.isArray(raw.pinterestLooks) ? raw.pinterestLooks.filter(isObject) : [],
+    reasoning: typeof raw.reasoning === "string" ? raw.reasoning : "",
+  } as OutfitCardData;
+};
+
+const toChatMessage = (raw: unknown): ChatMessage | null => {
+  if (
+    !isObject(raw) ||
+    typeof raw.id !== "string" ||
+    (raw.role !== "user" && raw.role !== "stylist") ||
+    typeof raw.content !== "string"
+  ) {
+    return null;
+  }
+  const message: ChatMessage = {
+    ...raw,
+    id: raw.id,
+    role: raw.role,
+    content: raw.content,
+    timestamp: typeof raw.timestamp === "number" ? raw.timestamp : 0,
+  };
+  if (isObject(raw.data)) {
+    message.data = {
+      ...raw.data,
+      outfits: Array.isArray(raw.data.outfits)
+        ? raw.data.outfits.map(toOutfitCardData).filter((o): o is OutfitCardData => o !== null)
+        : [],
+    } as ChatMessage["data"];
+  } else {
+    delete message.data;
+  }
+  return message;
+};
+
+const toWearEvent = (raw: unknown): WearEvent | null =>
+  isObject(raw) && typeof raw.id === "string" && typeof raw.date === "string" && isStringArray(raw.itemIds)
+    ? ({ ...raw, timestamp: typeof raw.timestamp === "number" ? raw.timestamp : 0 } as WearEvent)
+    : null;
+
+const toPlannedOutfit = (raw: unknown): PlannedOutfit | null => {
+  if (!isObject(raw) || typeof raw.id !== "string" || typeof raw.date !== "string") return null;
+  const outfit = toOutfitCardData(raw.outfit);
+  return outfit
+    ? { ...raw, id: raw.id, date: raw.date, occasion: typeof raw.occasion === "string" ? raw.occasion : "", outfit }
+    : null;
+};
+
+const isUserFact = (raw: unknown): raw is UserFact =>
+  isObject(raw) && typeof raw.id === "string" && typeof raw.text === "string" && (raw.source === "chat" || raw.source === "manual");
+
+const toMemory = (raw: unknown): ConversationMemory | undefined =>
+  isObject(raw)
+    ? {
+        summary: typeof raw.summary === "string" ? raw.summary : "",
+        summarizedThrough: typeof raw.summarizedThrough === "number" ? raw.summarizedThrough : 0,
+        facts: Array.isArray(raw.facts) ? raw.facts.filter(isUserFact) : [],
+      }
+    : undefined;
+
+// ----------------------------------------
+// Import
+// ----------------------------------------
+export const readBackup = async (
+  file: Blob
+): Promise<{ data: BackupData; invalidSkipped: number }> => {
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(new Uint8Array(await file.arrayBuffer()));
+  } catch {
+    throw new BackupError("This file isn't a valid zip archive.");
+  }
+
+  if (!entries[MANIFEST_FILE]) {
+    throw new BackupError("This zip isn't a StyleMate backup (manifest.json is missing).");
+  }
+
+  let manifest: any;
+  try {
+    manifest = JSON.parse(strFromU8(entries[MANIFEST_FILE]));
+  } catch {
+    throw new BackupError("The backup manifest is damaged and can't be read.");
+  }
+
+  if (!isObject(manifest) || manifest.format !== BACKUP_FORMAT) {
+    throw new BackupError("This zip isn't a StyleMate backup.");
+  }
+  if (typeof manifest.version !== "number" || manifest.version > BACKUP_VERSION) {
+    throw new BackupError(
+      `This backup was made by a newer version of the app (format v${manifest.version}).`
+    );
+  }
+
+  const readImage = (name: unknown) => {
+    if (typeof name !== "string" || !entries[name]) return undefined;
+    const ext = name.split(".").pop() || "";
+    return bytesToDataUrl(entries[name], MIME_TYPES[ext] || "image/jpeg");
+  };
+
+  let invalidSkipped = 0;
+  const keep = <T>(value: T | null): value is T => {
+    if (value === null) invalidSkipped++;
+    return value !== null;
+  };
+
+  const rawWardrobe: unknown[] = Array.isArray(manifest.wardrobe) ? manifest.wardrobe : [];
+  const wardrobe = rawWardrobe
+    .map((raw) => {
+      if (!isClothingItem(raw)) return null;
+      const { imageFile, thumbnailFile, ...item } = raw as ManifestItem;
+      return normalizeClothingItem({
+        ...item,
+        image: readImage(imageFile) || item.image || "",
+        thumbnail: readImage(thumbnailFile),
+      });
+    })
+    .filter(keep);
+
+  const favorites = (Array.isArray(manifest.favorites) ? manifest.favorites : [])
+    .map(toOutfitCardData)
+    .filter(keep);
+
+  const messages = (Array.isArray(manifest.messages) ? manifest.messages : [])
+    .map(toChatMessage)
+    .filter(keep);
+
+  const wearLog = (Array.isArray(manifest.wearEvents) ? manifest.wearEvents : [])
+    .map(toWearEvent)
+    .filter(keep);
+
+  const plans = (Array.isArray(manifest.plans) ? manifest.plans : [])
+    .map(toPlannedOutfit)
+    .filter(keep);
+
+  return { data: { wardrobe, favorites, messages, wearLog, plans, memory: toMemory(manifest.memory) }, invalidSkipped };
+};
+
+// ----------------------------------------
+// Merge
+// ----------------------------------------
+const remapOutfit = (outfit: OutfitCardData, itemIds: Map<string, string>): OutfitCardData => ({
+  ...outfit,
+  selectedItemIds: outfit.selectedItemIds.map((id) => itemIds.get(id) || id),
+});
+
+const sameItem = (a: ClothingItem, b: ClothingItem) =>
+  a.image === b.image && a.category === b.category && a.color === b.color;
+
+const sameOutfit = (a: OutfitCardData, b: OutfitCardData) =>
+  a.title === b.title && a.selectedItemIds.join() === b.selectedItemIds.join();
+
+const sameWear = (a: WearEvent, b: WearEvent) => a.date === b.date && a.itemIds.join() === b.itemIds.join();
+
+const samePlan = (a: PlannedOutfit, b: PlannedOutfit) => a.date === b.date && sameOutfit(a.outfit, b.outfit);
+
+export const applyBackup = (
+  current: BackupData,
+  incoming: BackupData,
+  mode: BackupImportMode,
+  invalidSkipped = 0
+): { data: BackupData; report: BackupImportReport } => {
+  const report: BackupImportReport = {
+    added: { items: 0, favorites: 0, messages: 0, wearEvents: 0, plans: 0 },
+    duplicatesSkipped: 0,
+    idsReassigned: 0,
+    invalidSkipped,
+  };
+
+  // Wear history and plans go with the wardrobe they point at, so an older
+  // backup without them clears them. Facts aren't tied to it and are kept;
+  // the summary described the chat being replaced and is not.
+  if (mode === "replace") {
+    report.added = {
+      items: incoming.wardrobe.length,
+      favorites: incoming.favorites.length,
+      messages: incoming.messages.length,
+      wearEvents: incoming.wearLog.length,
+      plans: incoming.plans.length,
+    };
+    const memory = incoming.memory || { ...EMPTY_MEMORY, facts: current.memory?.facts || [] };
+    return { data: { ...incoming, memory }, report };
+  }
+
+  // Generic id-collision handling: identical records are skipped, different
+  // records sharing an id get a fresh one (recorded in idMap).
+  const mergeById = <T extends { id: string }>(
+    existing: T[],
+    added: T[],
+    isSame: (a: T, b: T) => boolean,
+    idMap?: Map<string, string>
+  ) => {
+    const byId = new Map(existing.map((record) => [record.id, record]));
+    const result: T[] = [];
+    added.forEach((record) => {
+      const clash = byId.get(record.id);
+      if (!clash) {
+        byId.set(record.id, record);
+        result.push(record);
+      } else if (isSame(clash, record)) {
+        report.duplicatesSkipped++;
+      } else {
+        const id = crypto.randomUUID();
+        idMap?.set(record.id, id);
+        report.idsReassigned++;
+        byId.set(id, record);
+        result.push({ ...record, id });
+      }
+    });
+    return result;
+  };
+
+  const itemIds = new Map<string, string>();
+  const newItems = mergeById(current.wardrobe, incoming.wardrobe, sameItem, itemIds);
+
+  const newFavorites = mergeById(
+    current.favorites,
+    incoming.favorites.map((f) => remapOutfit(f, itemIds)),
+    sameOutfit
+  );
+
+  const newMessages = mergeById(
+    current.messages,
+    incoming.messages.map((m) =>
+      m.data ? { ...m, data: { ...m.data, outfits: m.data.outfits.map((o) => remapOutfit(o, itemIds)) } } : m
+    ),
+    (a, b) => a.role === b.role && a.content === b.content
+  );
+
+  const newWearEvents = mergeById(
+    current.wearLog,
+    incoming.wearLog.map((e) => ({ ...e, itemIds: e.itemIds.map((id) => itemIds.get(id) || id) })),
+    sameWear
+  );
+
+  const newPlans = mergeById(
+    current.plans,
+    incoming.plans.map((p) => ({ ...p, outfit: remapOutfit(p.outfit, itemIds) })),
+    samePlan
+  );
+
+  // The current summary stays; facts from the backup join the current ones
+  const facts = current.memory?.facts || [];
+  const incomingFacts = incoming.memory?.facts || [];
+  const memory = {
+    ...(current.memory || EMPTY_MEMORY),
+    facts: mergeFacts(
+      mergeFacts(facts, incomingFacts.filter((f) => f.source === "manual").map((f) => f.text), "manual"),
+      incomingFacts.filter((f) => f.source === "chat").map((f) => f.text),
+      "chat"
+    ),
+  };
+
+  report.added = {
+    items: newItems.length,
+    favorites: newFavorites.length,
+    messages: newMessages.length,
+    wearEvents: newWearEvents.length,
+    plans: newPlans.length,
+  };
+
+  return {
+    data: {
+      wardrobe: [...current.wardrobe, ...newItems],
+      favorites: [...current.favorites, ...newFavorites],
+      messages: [...current.messages, ...newMessages].sort((a, b) => a.timestamp - b.timestamp),
+      wearLog: [...current.wearLog, ...newWearEvents],
+      plans: [...current.plans, ...newPlans],
+      memory,
+    },
+    report,
+  };
+};
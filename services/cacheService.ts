@@ -0,0 +1,91 @@
+import { CacheEntry, CacheScope, ClothingItem } from "../types";
+import { loadCacheEntry, pruneCacheEntries, saveCacheEntry } from "./storageService";
+import { hashString } from "./outfitService";
+
+// ----------------------------------------
+// Response cache
+// ----------------------------------------
+// Model answers are kept in IndexedDB (with an in-memory layer in front),
+// keyed by a SHA-256 of everything that shaped them. Answers that depend on
+// the wardrobe carry its fingerprint in the key, so any edit to the wardrobe
+// is a miss; `pruneCache` then clears the stale entries out of storage.
+
+const HOUR = 3_600_000;
+
+export const CACHE_TTLS: Record<CacheScope, number> = {
+  analysis: 30 * 24 * HOUR, // A photo doesn't change
+  outfit: 12 * HOUR,
+  stylist: 12 * HOUR,
+  search: 24 * HOUR, // Prices and stock move
+};
+
+export interface CacheOptions {
+  fresh?: boolean; // Skip the lookup ("regenerate"); the new answer still replaces the old one
+  fingerprint?: string; // See `wardrobeFingerprint`
+  shouldStore?: (value: any) => boolean; // Keep non-answers (e.g. "couldn't find anything") out
+}
+
+const memory = new Map<string, CacheEntry>();
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+const cacheKey = async (scope: CacheScope, parts: unknown[]) => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(JSON.stringify(parts)));
+  return `${scope}:${toHex(digest)}`;
+};
+
+// Everything about the wardrobe a prompt can see; photos count through their
+// hash, or their size when one couldn't be taken.
+export const wardrobeFingerprint = (wardrobe: ClothingItem[]) =>
+  hashString(
+    JSON.stringify(
+      [...wardrobe]
+        .sort((a, b) => a.id.localeCompare(b.id))
+        .map((item) => [item.id, item.category, item.color, item.season, item.style, item.formality, item.description, item.imageHash || (item.image || "").length])
+    )
+  ).toString(36);
+
+const isLive = (entry: CacheEntry, now = Date.now()) => entry.expiresAt > now;
+
+const read = async (id: string) => {
+  const entry = memory.get(id) || (await loadCacheEntry(id).catch(() => null));
+  if (!entry || !isLive(entry)) return null;
+  memory.set(id, entry);
+  return entry;
+};
+
+// A cache that can't be written is only slower, never wrong.
+const write = (entry: CacheEntry) => {
+  memory.set(entry.id, entry);
+  saveCacheEntry(entry).catch((error) => console.warn("[cache] write failed", error));
+};
+
+export const withCache = async <T>(
+  scope: CacheScope,
+  parts: unknown[],
+  compute: () => Promise<T>,
+  { fresh = false, fingerprint, shouldStore = () => true }: CacheOptions = {}
+): Promise<T> => {
+  const id = await cacheKey(scope, [fingerprint ?? null, ...parts]);
+  if (!fresh) {
+    const hit = await read(id);
+    if (hit) return hit.value as T;
+  }
+
+  const value = await compute();
+  if (shouldStore(value)) {
+    const now = Date.now();
+    write({ id, scope, value, createdAt: now, expiresAt: now + CACHE_TTLS[scope], fingerprint });
+  }
+  return value;
+};
+
+// Drops expired entries and anything built from a different wardrobe.
+export const pruneCache = async (fingerprint: string) => {
+  const keep = (entry: CacheEntry) => isLive(entry) && (!entry.fingerprint || entry.fingerprint === fingerprint);
+  memory.forEach((entry, id) => {
+    if (!keep(entry)) memory.delete(id);
+  });
+  await pruneCacheEntries(keep);
+};
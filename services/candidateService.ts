@@ -0,0 +1,93 @@
+import { CategoryGroup, ClothingItem, Formality, Season, WearEvent } from "../types";
+import { FORMALITY_LEVELS, getCategoryGroup } from "./taxonomyService";
+import { daysBetween, toDateKey } from "./wearService";
+
+// ----------------------------------------
+// Candidate selection
+// ----------------------------------------
+// Large wardrobes don't fit in a prompt as photos, so each request first
+// narrows the wardrobe to the pieces most relevant to it. The shortlist stays
+// balanced across category groups so every outfit slot has options, and only
+// the first few candidates (the image budget) are sent with their photos.
+
+export const CANDIDATE_SETTINGS = {
+  maxCandidates: 24,
+  defaultImageBudget: 12,
+};
+
+const FORMALITY_KEYWORDS: [RegExp, Formality][] = [
+  [/\b(wedding|gala|black tie|reception|formal)\b/, "formal"],
+  [/\b(office|work|meeting|interview|presentation|business)\b/, "business"],
+  [/\b(date|dinner|party|brunch|smart)\b/, "smart-casual"],
+  [/\b(gym|run|running|workout|yoga|hike|sport)\b/, "athleisure"],
+];
+
+const SEASON_KEYWORDS: [RegExp, Season][] = [
+  [/\b(winter|cold|snow|freezing|chilly)\b/, "Winter"],
+  [/\b(summer|hot|beach|heat|humid)\b/, "Summer"],
+  [/\b(autumn|fall|rainy|monsoon)\b/, "Autumn"],
+  [/\b(spring|mild)\b/, "Spring"],
+];
+
+// What a free-text request implies about dress code and weather.
+export const readOccasion = (text: string) => {
+  const lower = text.toLowerCase();
+  return {
+    formality: FORMALITY_KEYWORDS.find(([re]) => re.test(lower))?.[1] || ("casual" as Formality),
+    season: SEASON_KEYWORDS.find(([re]) => re.test(lower))?.[1],
+  };
+};
+
+// STYLIST_IMAGE_BUDGET caps the photos per request; 0 sends text only.
+export const resolveImageBudget = (configured = process.env.STYLIST_IMAGE_BUDGET) => {
+  const budget = Number.parseInt(configured?.trim() || "", 10);
+  return Number.isFinite(budget) && budget >= 0 ? budget : CANDIDATE_SETTINGS.defaultImageBudget;
+};
+
+const mentions = (text: string, word: string) => !!word && text.includes(word.toLowerCase());
+
+// Higher is more relevant. Named pieces and colours beat dress code, which
+// beats season; anything worn in the last three days drops back.
+const relevance = (item: ClothingItem, request: string, recentlyWorn: Set<string>) => {
+  const lower = request.toLowerCase();
+  const { formality, season } = readOccasion(request);
+  let score = 10 - 3 * Math.abs(FORMALITY_LEVELS.indexOf(item.formality || "casual") - FORMALITY_LEVELS.indexOf(formality));
+  if (season && (item.season.includes(season) || item.season.includes("All-Season"))) score += 2;
+  if (mentions(lower, item.category)) score += 6;
+  if (mentions(lower, item.color)) score += 4;
+  if (item.style.some((style) => mentions(lower, style))) score += 3;
+  if (recentlyWorn.has(item.id)) score -= 2;
+  return score;
+};
+
+// Takes the best remaining item of each group in turn, so a shortlist of 24
+// from a wardrobe of 40 tops still has shoes in it.
+export const selectCandidates = (
+  wardrobe: ClothingItem[],
+  request: string,
+  wearLog: WearEvent[] = [],
+  limit = CANDIDATE_SETTINGS.maxCandidates
+): ClothingItem[] => {
+  const today = toDateKey();
+  const recentlyWorn = new Set(
+    wearLog.filter((e) => daysBetween(e.date, today) >= 0 && daysBetween(e.date, today) <= 3).flatMap((e) => e.itemIds)
+  );
+
+  const queues = new Map<CategoryGroup | null, ClothingItem[]>();
+  wardrobe
+    .map((item) => ({ item, score: relevance(item, request, recentlyWorn) }))
+    .sort((a, b) => b.score - a.score)
+    .forEach(({ item }) => {
+      const group = getCategoryGroup(item.category);
+      queues.set(group, [...(queues.get(group) || []), item]);
+    });
+
+  const selected: ClothingItem[] = [];
+  const lanes = Array.from(queues.values());
+  while (selected.length < limit && lanes.some((lane) => lane.length)) {
+    lanes.forEach((lane) => {
+      if (lane.length && selected.length < limit) selected.push(lane.shift()!);
+    });
+  }
+  return selected;
+};
@@ -0,0 +1,164 @@
+import { CategoryGroup, ClothingItem } from "../types";
+import { dataUrlToBytes, decodeImage } from "./imageService";
+import { getCategoryGroup } from "./taxonomyService";
+
+// ----------------------------------------
+// Flat-lay collage
+// ----------------------------------------
+// Outfit previews are composed in the browser from the wardrobe photos
+// themselves: outerwear and tops along the top, bottoms in the middle, shoes
+// at the bottom and accessories down the side, as if laid out on a bed.
+// `planFlatLay` is pure layout; only `composeFlatLay` touches the canvas.
+
+export const COLLAGE_SETTINGS = {
+  size: 1200, // Square, in pixels
+  padding: 48,
+  gap: 24,
+  sideShare: 0.24, // Width of the accessory column, when there is one
+  background: "#f5f2ec",
+  cacheSize: 12, // Collages kept for the session, least recently used dropped first
+};
+
+export interface CollageTile {
+  item: ClothingItem;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Rows of the main column, top to bottom, with their share of its height.
+// A dress takes the top row; empty rows give their space to the rest.
+const ROWS: { groups: CategoryGroup[]; weight: number }[] = [
+  { groups: ["outerwear", "top", "one-piece"], weight: 0.4 },
+  { groups: ["bottom"], weight: 0.35 },
+  { groups: ["footwear"], weight: 0.25 },
+];
+
+const splitRow = (items: ClothingItem[], x: number, y: number, width: number, height: number, gap: number) => {
+  const cell = (width - gap * (items.length - 1)) / items.length;
+  return items.map((item, i): CollageTile => ({ item, x: x + i * (cell + gap), y, width: cell, height }));
+};
+
+export const planFlatLay = (items: ClothingItem[], settings = COLLAGE_SETTINGS): CollageTile[] => {
+  const { size, padding, gap, sideShare } = settings;
+  const rows = ROWS.map((row) => ({
+    weight: row.weight,
+    items: row.groups.flatMap((group) => items.filter((item) => getCategoryGroup(item.category) === group)),
+  })).filter((row) => row.items.length);
+  // Accessories, and anything the taxonomy doesn't know, go down the side
+  const placed = new Set(rows.flatMap((row) => row.items));
+  const side = items.filter((item) => !placed.has(item));
+
+  const inner = size - padding * 2;
+  const sideWidth = side.length && rows.length ? inner * sideShare : side.length ? inner : 0;
+  const mainWidth = inner - sideWidth - (side.length && rows.length ? gap : 0);
+
+  const tiles: CollageTile[] = [];
+  const totalWeight = rows.reduce((sum, row) => sum + row.weight, 0);
+  const rowSpace = inner - gap * (rows.length - 1);
+  let y = padding;
+  rows.forEach((row) => {
+    const height = (rowSpace * row.weight) / totalWeight;
+    tiles.push(...splitRow(row.items, padding, y, mainWidth, height, gap));
+    y += height + gap;
+  });
+
+  if (side.length) {
+    const x = padding + inner - sideWidth;
+    const height = (inner - gap * (side.length - 1)) / side.length;
+    side.forEach((item, i) => tiles.push({ item, x, y: padding + i * (height + gap), width: sideWidth, height }));
+  }
+  return tiles;
+};
+
+// ----------------------------------------
+// Drawing
+// ----------------------------------------
+const loadPhoto = async (item: ClothingItem) => {
+  const parsed = dataUrlToBytes(item.image || item.thumbnail || "");
+  if (!parsed) return null;
+  try {
+    return await decodeImage(new Blob([parsed.bytes], { type: parsed.mimeType }));
+  } catch {
+    return null;
+  }
+};
+
+// Each photo is fitted inside its tile on a soft card, never cropped.
+const drawTile = (ctx: CanvasRenderingContext2D, tile: CollageTile, photo: Awaited<ReturnType<typeof loadPhoto>>) => {
+  ctx.save();
+  ctx.shadowColor = "rgba(0, 0, 0, 0.12)";
+  ctx.shadowBlur = 18;
+  ctx.shadowOffsetY = 6;
+  ctx.fillStyle = "#ffffff";
+  ctx.beginPath();
+  ctx.roundRect(tile.x, tile.y, tile.width, tile.height, 20);
+  ctx.fill();
+  ctx.restore();
+  if (!photo) return;
+
+  const inset = 12;
+  const scale = Math.min((tile.width - inset * 2) / photo.width, (tile.height - inset * 2) / photo.height);
+  const width = photo.width * scale;
+  const height = photo.height * scale;
+  ctx.save();
+  ctx.beginPath();
+  ctx.roundRect(tile.x + inset, tile.y + inset, tile.width - inset * 2, tile.height - inset * 2, 12);
+  ctx.clip();
+  ctx.drawImage(photo.source, tile.x + (tile.width - width) / 2, tile.y + (tile.height - height) / 2, width, height);
+  ctx.restore();
+};
+
+const collages = new Map<string, Promise<string | null>>();
+
+const collageKey = (items: ClothingItem[]) =>
+  items.map((item) => `${item.id}:${item.imageHash || (item.image || "").length}`).join("|");
+
+// PNG data URL of the outfit, or null when none of its items has a photo.
+// Recent results are remembered, so cards can ask freely; each is a few MB,
+// so only the last `cacheSize` are kept.
+export const composeFlatLay = (items: ClothingItem[], settings = COLLAGE_SETTINGS): Promise<string | null> => {
+  const withPhotos = items.filter((item) => item.image || item.thumbnail);
+  if (!withPhotos.length) return Promise.resolve(null);
+  const key = collageKey(withPhotos);
+  const hit = collages.get(key);
+  if (hit) {
+    // Map order doubles as recency
+    collages.delete(key);
+    collages.set(key, hit);
+  } else {
+    const composed = (async () => {
+      const tiles = planFlatLay(withPhotos, settings);
+      const photos = await Promise.all(tiles.map((tile) => loadPhoto(tile.item)));
+      const canvas = document.createElement("canvas");
+      canvas.width = canvas.height = settings.size;
+      const ctx = canvas.getContext("2d");
+      if (!ctx) throw new Error("Canvas 2D context unavailable");
+
+      ctx.fillStyle = settings.background;
+      ctx.fillRect(0, 0, settings.size, settings.size);
+      ctx.imageSmoothingEnabled = true;
+      ctx.imageSmoothingQuality = "high";
+      try {
+        tiles.forEach((tile, i) => drawTile(ctx, tile, photos[i]));
+      } finally {
+        photos.forEach((photo) => photo?.release());
+      }
+      return photos.some((photo) => photo) ? canvas.toDataURL("image/png") : null;
+    })();
+    // A failure shouldn't stick; let the next caller try again.
+    composed.catch(() => collages.delete(key));
+    collages.set(key, composed);
+    while (collages.size > settings.cacheSize) collages.delete(collages.keys().next().value!);
+  }
+  return collages.get(key)!;
+};
+
+export const downloadFlatLay = (dataUrl: string, title = "outfit") => {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "outfit";
+  const link = document.createElement("a");
+  link.href = dataUrl;
+  link.download = `stylemate-${slug}.png`;
+  link.click();
+};
@@ -0,0 +1,200 @@
+import { ClothingItem, ColorSwatch } from "../types";
+import { dataUrlToBytes, decodeImage } from "./imageService";
+
+// ----------------------------------------
+// Local dominant-color extraction
+// ----------------------------------------
+// Works on raw RGBA pixels so the maths is deterministic and testable; only
+// extractPalette touches the canvas. The background is estimated from the
+// image border and ignored, the rest is bucketed and the biggest buckets win.
+
+export const NAMED_COLORS: { name: string; hex: string }[] = [
+  { name: "Black", hex: "#1a1a1a" },
+  { name: "Charcoal", hex: "#3f3f46" },
+  { name: "Grey", hex: "#8e8e93" },
+  { name: "Light Grey", hex: "#c8c8c8" },
+  { name: "White", hex: "#f7f7f5" },
+  { name: "Cream", hex: "#efe6d2" },
+  { name: "Beige", hex: "#d8c3a5" },
+  { name: "Khaki", hex: "#b3a46f" },
+  { name: "Tan", hex: "#c19a6b" },
+  { name: "Brown", hex: "#6b4226" },
+  { name: "Burgundy", hex: "#6d1a2b" },
+  { name: "Red", hex: "#c62828" },
+  { name: "Pink", hex: "#f4a6c0" },
+  { name: "Coral", hex: "#f07c5e" },
+  { name: "Orange", hex: "#ef7d1a" },
+  { name: "Mustard", hex: "#d1a528" },
+  { name: "Yellow", hex: "#f5d94a" },
+  { name: "Olive", hex: "#6b6b2a" },
+  { name: "Green", hex: "#2e7d32" },
+  { name: "Mint", hex: "#a8dcc0" },
+  { name: "Teal", hex: "#1f7a7a" },
+  { name: "Light Blue", hex: "#9cc3e6" },
+  { name: "Denim", hex: "#4a6a94" },
+  { name: "Blue", hex: "#2448c8" },
+  { name: "Navy", hex: "#1f2d5c" },
+  { name: "Purple", hex: "#6a3d9a" },
+  { name: "Lavender", hex: "#b9a7d9" },
+];
+
+const SAMPLE_SIZE = 64;
+const BUCKET_BITS = 4; // 16 levels per channel
+const BACKGROUND_DISTANCE = 18; // Lab distance treated as "same as background"
+const MERGE_DISTANCE = 14; // Buckets closer than this become one swatch
+const MIN_SHARE = 0.08; // Ignore specks below 8% of garment pixels
+
+type Rgb = [number, number, number];
+type Lab = [number, number, number];
+
+export const rgbToHex = ([r, g, b]: Rgb) =>
+  "#" + [r, g, b].map((v) => Math.round(v).toString(16).padStart(2, "0")).join("");
+
+export const hexToRgb = (hex: string): Rgb => {
+  const value = parseInt(hex.replace("#", ""), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+const toLinear = (c: number) => {
+  const v = c / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+};
+
+// sRGB -> CIE Lab (D65), where plain Euclidean distance roughly tracks perception.
+export const rgbToLab = ([r, g, b]: Rgb): Lab => {
+  const [lr, lg, lb] = [toLinear(r), toLinear(g), toLinear(b)];
+  const x = (lr * 0.4124 + lg * 0.3576 + lb * 0.1805) / 0.95047;
+  const y = lr * 0.2126 + lg * 0.7152 + lb * 0.0722;
+  const z = (lr * 0.0193 + lg * 0.1192 + lb * 0.9505) / 1.08883;
+  const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+  return [116 * f(y) - 16, 500 * (f(x) - f(y)), 200 * (f(y) - f(z))];
+};
+
+export const labDistance = (a: Lab, b: Lab) =>
+  Math.sqrt((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2);
+
+const NAMED_LAB = NAMED_COLORS.map((c) => ({ ...c, lab: rgbToLab(hexToRgb(c.hex)) }));
+
+export const nearestColorName = (hex: string) => {
+  const lab = rgbToLab(hexToRgb(hex));
+  let best = NAMED_LAB[0];
+  let bestDistance = Infinity;
+  NAMED_LAB.forEach((named) => {
+    const distance = labDistance(lab, named.lab);
+    if (distance < bestDistance) {
+      best = named;
+      bestDistance = distance;
+    }
+  });
+  return best.name;
+};
+
+const averageBorder = (pixels: ArrayLike<number>, width: number, height: number): Rgb | null => {
+  const sum: Rgb = [0, 0, 0];
+  let count = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (x !== 0 && y !== 0 && x !== width - 1 && y !== height - 1) continue;
+      const i = (y * width + x) * 4;
+      if (pixels[i + 3] < 128) continue;
+      sum[0] += pixels[i];
+      sum[1] += pixels[i + 1];
+      sum[2] += pixels[i + 2];
+      count++;
+    }
+  }
+  return count ? [sum[0] / count, sum[1] / count, sum[2] / count] : null;
+};
+
+export const extractDominantColors = (
+  pixels: ArrayLike<number>,
+  width: number,
+  height: number,
+  maxColors = 3
+): ColorSwatch[] => {
+  const border = averageBorder(pixels, width, height);
+  const borderLab = border ? rgbToLab(border) : null;
+
+  const collect = (skipBackground: boolean) => {
+    const buckets = new Map<number, { sum: Rgb; count: number }>();
+    let total = 0;
+    for (let i = 0; i < width * height * 4; i += 4) {
+      if (pixels[i + 3] < 128) continue;
+      const rgb: Rgb = [pixels[i], pixels[i + 1], pixels[i + 2]];
+      if (skipBackground && borderLab && labDistance(rgbToLab(rgb), borderLab) < BACKGROUND_DISTANCE) continue;
+      const shift = 8 - BUCKET_BITS;
+      const key = ((rgb[0] >> shift) << (BUCKET_BITS * 2)) | ((rgb[1] >> shift) << BUCKET_BITS) | (rgb[2] >> shift);
+      const bucket = buckets.get(key) || { sum: [0, 0, 0] as Rgb, count: 0 };
+      bucket.sum[0] += rgb[0];
+      bucket.sum[1] += rgb[1];
+      bucket.sum[2] += rgb[2];
+      bucket.count++;
+      buckets.set(key, bucket);
+      total++;
+    }
+    return { buckets, total };
+  };
+
+  // A garment that matches its backdrop would vanish entirely; fall back to all pixels.
+  let { buckets, total } = collect(true);
+  if (total < width * height * 0.05) ({ buckets, total } = collect(false));
+  if (!total) return [];
+
+  // Largest buckets first; ties broken by key so the order is stable.
+  const ranked = [...buckets.entries()]
+    .map(([key, b]) => ({
+      key,
+      count: b.count,
+      rgb: [b.sum[0] / b.count, b.sum[1] / b.count, b.sum[2] / b.count] as Rgb,
+    }))
+    .sort((a, b) => b.count - a.count || a.key - b.key);
+
+  const clusters: { rgbSum: Rgb; count: number; lab: Lab }[] = [];
+  ranked.forEach(({ rgb, count }) => {
+    const lab = rgbToLab(rgb);
+    const home = clusters.find((c) => labDistance(c.lab, lab) < MERGE_DISTANCE);
+    if (home) {
+      home.rgbSum[0] += rgb[0] * count;
+      home.rgbSum[1] += rgb[1] * count;
+      home.rgbSum[2] += rgb[2] * count;
+      home.count += count;
+    } else {
+      clusters.push({ rgbSum: [rgb[0] * count, rgb[1] * count, rgb[2] * count], count, lab });
+    }
+  });
+
+  return clusters
+    .sort((a, b) => b.count - a.count)
+    .filter((c, i) => i === 0 || c.count / total >= MIN_SHARE)
+    .slice(0, maxColors)
+    .map((c) => {
+      const hex = rgbToHex([c.rgbSum[0] / c.count, c.rgbSum[1] / c.count, c.rgbSum[2] / c.count]);
+      return { hex, name: nearestColorName(hex), share: Math.round((c.count / total) * 100) / 100 };
+    });
+};
+
+export const extractPalette = async (dataUrl: string): Promise<ColorSwatch[]> => {
+  const decoded = dataUrlToBytes(dataUrl);
+  if (!decoded) return [];
+  const image = await decodeImage(new Blob([decoded.bytes], { type: decoded.mimeType }));
+  try {
+    const canvas = document.createElement("canvas");
+    canvas.width = SAMPLE_SIZE;
+    canvas.height = SAMPLE_SIZE;
+    const ctx = canvas.getContext("2d", { willReadFrequently: true });
+    if (!ctx) return [];
+    ctx.drawImage(image.source, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+    const { data } = ctx.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+    return extractDominantColors(data, SAMPLE_SIZE, SAMPLE_SIZE);
+  } finally {
+    image.release();
+  }
+};
+
+// The dominant swatch, unless the user corrected the color by hand: then the
+// photo no longer has the last word.
+export const primarySwatch = (item: ClothingItem) =>
+  item.editedFields?.includes("color") ? undefined : item.palette?.[0];
+
+// The named color to show and filter by, falling back to the text color.
+export const primaryColorName = (item: ClothingItem) => primarySwatch(item)?.name || item.color;
@@ -0,0 +1,196 @@
+import { CategoryGroup, ClothingItem, Formality, OutfitCardData, ScoreRule, Season, StylistResponse, WeatherContext } from "../types";
+import { NAMED_COLORS, hexToRgb, primarySwatch, rgbToLab } from "./colorService";
+import { FORMALITY_LABELS, FORMALITY_LEVELS, getCategoryGroup } from "./taxonomyService";
+import { readOccasion } from "./candidateService";
+import { rankOutfits } from "./outfitService";
+import { seasonForWeather } from "./weatherService";
+
+// ----------------------------------------
+// Outfit compatibility score
+// ----------------------------------------
+// A deterministic, offline judge of how well a set of wardrobe items works
+// together. Each rule scores 0-100 and explains itself; the total is their
+// weighted mean. Whatever a model claims, outfits are ranked by this.
+
+export const SCORE_WEIGHTS = {
+  color: 0.3,
+  season: 0.2,
+  formality: 0.25,
+  completeness: 0.25,
+};
+
+export interface OutfitScore {
+  score: number;
+  breakdown: ScoreRule[];
+}
+
+export interface ScoreOccasion {
+  formality?: Formality;
+  season?: Season;
+}
+
+// ----------------------------------------
+// Color harmony
+// ----------------------------------------
+// Neutrals go with anything; between real colors, hues close together
+// (analogous) or opposite (complementary) work, the in-between angles clash.
+const NEUTRAL_NAMES = new Set(
+  ["Black", "Charcoal", "Grey", "Light Grey", "White", "Cream", "Beige", "Khaki", "Tan", "Brown", "Navy", "Denim"].map(
+    (name) => name.toLowerCase()
+  )
+);
+const NEUTRAL_CHROMA = 18; // Lab chroma below this reads as grey-ish
+
+interface ItemColor {
+  name: string;
+  neutral: boolean;
+  hue: number; // Degrees on the HSL color wheel
+}
+
+const hueOf = ([r, g, b]: [number, number, number]) => {
+  const max = Math.max(r, g, b);
+  const delta = max - Math.min(r, g, b);
+  if (!delta) return 0;
+  const sector = max === r ? (g - b) / delta : max === g ? (b - r) / delta + 2 : (r - g) / delta + 4;
+  return (sector * 60 + 360) % 360;
+};
+
+const colorOf = (item: ClothingItem): ItemColor | null => {
+  const swatch = primarySwatch(item);
+  const named = NAMED_COLORS.find((c) => c.name.toLowerCase() === item.color.trim().toLowerCase());
+  const hex = swatch?.hex || named?.hex;
+  const name = swatch?.name || named?.name || item.color;
+  if (!hex) return NEUTRAL_NAMES.has(name.toLowerCase()) ? { name, neutral: true, hue: 0 } : null;
+  const rgb = hexToRgb(hex);
+  const [, a, b] = rgbToLab(rgb);
+  return { name, neutral: NEUTRAL_NAMES.has(name.toLowerCase()) || Math.hypot(a, b) < NEUTRAL_CHROMA, hue: hueOf(rgb) };
+};
+
+const hueGap = (a: number, b: number) => {
+  const gap = Math.abs(a - b) % 360;
+  return gap > 180 ? 360 - gap : gap;
+};
+
+const pairHarmony = (gap: number): [number, string] => {
+  if (gap <= 40) return [100, "analogous"];
+  if (gap >= 150) return [100, "complementary"];
+  if (gap >= 100) return [75, "split-complementary"];
+  return [35, "clashing"];
+};
+
+const scoreColor = (items: ClothingItem[]): ScoreRule => {
+  const rule = { id: "color" as const, label: "Color harmony", weight: SCORE_WEIGHTS.color };
+  const colors = items.map(colorOf).filter((c): c is ItemColor => !!c);
+  const accents = colors.filter((c) => !c.neutral);
+  if (colors.length < 2) return { ...rule, score: 80, note: "Not enough known colors to judge" };
+  if (accents.length <= 1) {
+    return {
+      ...rule,
+      score: 100,
+      note: accents.length ? `${accents[0].name} on a neutral base` : "All neutrals, always safe",
+    };
+  }
+
+  const pairs: [number, string][] = [];
+  accents.forEach((a, i) => accents.slice(i + 1).forEach((b) => pairs.push(pairHarmony(hueGap(a.hue, b.hue)))));
+  const average = pairs.reduce((sum, [score]) => sum + score, 0) / pairs.length;
+  // More than three accent colors is busy however well they pair
+  const score = Math.round(average - Math.max(0, accents.length - 3) * 15);
+  const worst = pairs.reduce((low, pair) => (pair[0] < low[0] ? pair : low));
+  return { ...rule, score: Math.max(0, score), note: `${accents.map((c) => c.name).join(", ")}: ${worst[1]}` };
+};
+
+// ----------------------------------------
+// Season, formality, completeness
+// ----------------------------------------
+const fitsSeason = (item: ClothingItem, season: Season) =>
+  !item.season.length || item.season.includes(season) || item.season.includes("All-Season");
+
+const scoreSeason = (items: ClothingItem[], target?: Season): ScoreRule => {
+  const rule = { id: "season" as const, label: "Season", weight: SCORE_WEIGHTS.season };
+  const candidates: Season[] = target ? [target] : ["Spring", "Summer", "Autumn", "Winter"];
+  // The season the most pieces share; with a target, only that one counts
+  const [season, fitting] = candidates
+    .map((s) => [s, items.filter((item) => fitsSeason(item, s)).length] as const)
+    .reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+  const score = Math.round((fitting / items.length) * 100);
+  const off = items.length - fitting;
+  const anySeason = !target && items.every((item) => candidates.every((s) => fitsSeason(item, s)));
+  const note = off
+    ? `${off} of ${items.length} pieces aren't for ${season.toLowerCase()}`
+    : anySeason
+      ? "Works in any season"
+      : `All pieces suit ${season.toLowerCase()}`;
+  return { ...rule, score, note };
+};
+
+const scoreFormality = (items: ClothingItem[], target?: Formality): ScoreRule => {
+  const rule = { id: "formality" as const, label: "Formality", weight: SCORE_WEIGHTS.formality };
+  const levels = items.map((item) => FORMALITY_LEVELS.indexOf(item.formality || "casual"));
+  const spread = Math.max(...levels) - Math.min(...levels);
+  const distance = target
+    ? levels.reduce((sum, level) => sum + Math.abs(level - FORMALITY_LEVELS.indexOf(target)), 0) / levels.length
+    : 0;
+  const score = Math.max(0, Math.round(100 - spread * 25 - distance * 15));
+  const note =
+    spread > 1
+      ? `Mixes ${FORMALITY_LABELS[FORMALITY_LEVELS[Math.min(...levels)]].toLowerCase()} with ${FORMALITY_LABELS[FORMALITY_LEVELS[Math.max(...levels)]].toLowerCase()}`
+      : distance >= 1 && target
+        ? `Pitched away from ${FORMALITY_LABELS[target].toLowerCase()}`
+        : "Consistent dress code";
+  return { ...rule, score, note };
+};
+
+const scoreCompleteness = (items: ClothingItem[]): ScoreRule => {
+  const rule = { id: "completeness" as const, label: "Completeness", weight: SCORE_WEIGHTS.completeness };
+  const groups = new Set<CategoryGroup | null>(items.map((item) => getCategoryGroup(item.category)));
+  const hasBase = groups.has("one-piece") || (groups.has("top") && groups.has("bottom"));
+  const partialBase = !hasBase && (groups.has("top") || groups.has("bottom"));
+  const missing = [
+    !hasBase && (groups.has("top") ? "a bottom" : groups.has("bottom") ? "a top" : "a top and bottom or a dress"),
+    !groups.has("footwear") && "footwear",
+  ].filter((m): m is string => !!m);
+  const score = (hasBase ? 60 : partialBase ? 30 : 0) + (groups.has("footwear") ? 40 : 0);
+  return { ...rule, score, note: missing.length ? `Missing ${missing.join(" and ")}` : "Head to toe" };
+};
+
+// ----------------------------------------
+// Public API
+// ----------------------------------------
+export const scoreOutfit = (items: ClothingItem[], occasion: ScoreOccasion = {}): OutfitScore => {
+  if (!items.length) return { score: 0, breakdown: [] };
+  const breakdown = [
+    scoreColor(items),
+    scoreSeason(items, occasion.season),
+    scoreFormality(items, occasion.formality),
+    scoreCompleteness(items),
+  ];
+  const score = Math.round(breakdown.reduce((sum, rule) => sum + rule.score * rule.weight, 0));
+  return { score, breakdown };
+};
+
+// Outfits with no wardrobe pieces (pure shopping ideas) keep the model's score.
+export const scoreOutfitCard = (
+  outfit: OutfitCardData,
+  wardrobe: ClothingItem[],
+  occasion: ScoreOccasion = {}
+): OutfitCardData => {
+  const items = wardrobe.filter((item) => outfit.selectedItemIds.includes(item.id));
+  if (!items.length) return outfit;
+  const { score, breakdown } = scoreOutfit(items, occasion);
+  return { ...outfit, matchScore: score, scoreBreakdown: breakdown };
+};
+
+// Re-scores a stylist answer's outfits against the request and ranks them.
+// A season the request doesn't name comes from the weather, if known.
+export const scoreStylistResponse = (
+  response: StylistResponse,
+  wardrobe: ClothingItem[],
+  request: string,
+  weather?: WeatherContext | null
+): StylistResponse => {
+  if (!response.outfits.length) return response;
+  const occasion = readOccasion(request);
+  occasion.season ??= seasonForWeather(weather);
+  return { ...response, outfits: rankOutfits(response.outfits.map((o) => scoreOutfitCard(o, wardrobe, occasion))) };
+};
@@ -0,0 +1,114 @@
+import { ClothingItem } from "../types";
+import { dataUrlToBytes, decodeImage } from "./imageService";
+
+// ----------------------------------------
+// Perceptual duplicate detection
+// ----------------------------------------
+// A 64-bit difference hash (dHash): shrink to 9x8 greyscale and record
+// whether each pixel is brighter than its right-hand neighbour. Re-encoded,
+// resized or slightly re-cropped copies of a photo land within a few bits.
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+// Up to this many differing bits (out of 64) counts as the same photo.
+export const DUPLICATE_THRESHOLD = 10;
+
+export interface DuplicateMatch {
+  item: ClothingItem;
+  distance: number;
+}
+
+// Pure part, kept separate from the canvas work so it is easy to test.
+export const differenceHash = (grey: ArrayLike<number>, width = HASH_WIDTH, height = HASH_HEIGHT) => {
+  let hex = "";
+  let nibble = 0;
+  let bits = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width - 1; x++) {
+      nibble = (nibble << 1) | (grey[y * width + x] > grey[y * width + x + 1] ? 1 : 0);
+      if (++bits === 4) {
+        hex += nibble.toString(16);
+        nibble = 0;
+        bits = 0;
+      }
+    }
+  }
+  return hex;
+};
+
+export const hammingDistance = (a: string, b: string) => {
+  if (a.length !== b.length) return Infinity;
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let xor = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (xor) {
+      distance += xor & 1;
+      xor >>= 1;
+    }
+  }
+  return distance;
+};
+
+export const hashImage = async (blob: Blob): Promise<string> => {
+  const decoded = await decodeImage(blob);
+  try {
+    const canvas = document.createElement("canvas");
+    canvas.width = HASH_WIDTH;
+    canvas.height = HASH_HEIGHT;
+    const ctx = canvas.getContext("2d", { willReadFrequently: true });
+    if (!ctx) throw new Error("Canvas 2D context unavailable");
+    ctx.imageSmoothingQuality = "high";
+    ctx.drawImage(decoded.source, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+
+    const { data } = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+    const grey = new Array<number>(HASH_WIDTH * HASH_HEIGHT);
+    for (let i = 0; i < grey.length; i++) {
+      grey[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    }
+    return differenceHash(grey);
+  } finally {
+    decoded.release();
+  }
+};
+
+export const hashDataUrl = (dataUrl: string) => {
+  const decoded = dataUrlToBytes(dataUrl);
+  if (!decoded) return Promise.reject(new Error("Not a base64 image"));
+  return hashImage(new Blob([decoded.bytes], { type: decoded.mimeType }));
+};
+
+// Keyed by the image string itself, so a replaced photo is re-hashed.
+const hashCache = new Map<string, string>();
+
+// Items saved before hashing existed get hashed on demand. The thumbnail is
+// cheaper to decode and gives practically the same hash.
+export const getItemHash = async (item: ClothingItem): Promise<string | null> => {
+  if (item.imageHash) return item.imageHash;
+  const source = item.thumbnail || item.image;
+  if (!source) return null;
+  if (hashCache.has(source)) return hashCache.get(source)!;
+  try {
+    const hash = await hashDataUrl(source);
+    hashCache.set(source, hash);
+    return hash;
+  } catch {
+    return null;
+  }
+};
+
+export const findDuplicate = (
+  hash: string,
+  candidates: { item: ClothingItem; hash: string | null }[],
+  threshold = DUPLICATE_THRESHOLD
+): DuplicateMatch | null => {
+  let best: DuplicateMatch | null = null;
+  candidates.forEach(({ item, hash: other }) => {
+    if (!other) return;
+    const distance = hammingDistance(hash, other);
+    if (distance <= threshold && (!best || distance < best.distance)) {
+      best = { item, distance };
+    }
+  });
+  return best;
+};
@@ -0,0 +1,90 @@
+import { ClothingItem, FacetOption, WardrobeFacet, WardrobeFilters } from "../types";
+import { primaryColorName } from "./colorService";
+
+// ----------------------------------------
+// Wardrobe search, facets and sorting
+// ----------------------------------------
+export const FACETS: WardrobeFacet[] = ["category", "color", "season", "style"];
+
+export const createEmptyFilters = (): WardrobeFilters => ({
+  query: "",
+  facets: { category: [], color: [], season: [], style: [] },
+  sort: "newest",
+});
+
+export const hasActiveFilters = (filters: WardrobeFilters) =>
+  filters.query.trim() !== "" || FACETS.some((facet) => filters.facets[facet].length > 0);
+
+const facetKey = (value: string) => value.trim().toLowerCase();
+
+// Color uses the extracted named color when there is one, so "Navy" and
+// "dark blue" from the model end up in the same bucket.
+const facetValues = (item: ClothingItem, facet: WardrobeFacet): string[] => {
+  const raw = facet === "color" ? primaryColorName(item) : item[facet];
+  return (Array.isArray(raw) ? raw : [raw]).filter((v) => v && v.trim());
+};
+
+const matchesQuery = (item: ClothingItem, query: string) => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (!terms.length) return true;
+  const haystack = [item.description, item.category, item.color, ...(item.palette || []).map((c) => c.name)]
+    .join(" ")
+    .toLowerCase();
+  return terms.every((term) => haystack.includes(term));
+};
+
+// Within a facet selections are OR-ed; across facets they are AND-ed.
+const matchesFacet = (item: ClothingItem, facet: WardrobeFacet, selected: string[]) =>
+  !selected.length || facetValues(item, facet).some((v) => selected.includes(facetKey(v)));
+
+const matchesAll = (item: ClothingItem, filters: WardrobeFilters, ignore?: WardrobeFacet) =>
+  matchesQuery(item, filters.query) &&
+  FACETS.every((facet) => facet === ignore || matchesFacet(item, facet, filters.facets[facet]));
+
+// Counts for a facet reflect every other active filter, so picking a
+// category narrows the color counts but not the other categories.
+export const buildFacetOptions = (
+  items: ClothingItem[],
+  filters: WardrobeFilters
+): Record<WardrobeFacet, FacetOption[]> => {
+  const result = {} as Record<WardrobeFacet, FacetOption[]>;
+
+  FACETS.forEach((facet) => {
+    const options = new Map<string, FacetOption>();
+
+    // Every value present in the wardrobe stays listed, even at zero.
+    items.forEach((item) =>
+      facetValues(item, facet).forEach((value) => {
+        const key = facetKey(value);
+        if (!options.has(key)) options.set(key, { key, label: value.trim(), count: 0 });
+      })
+    );
+
+    items
+      .filter((item) => matchesAll(item, filters, facet))
+      .forEach((item) => {
+        new Set(facetValues(item, facet).map(facetKey)).forEach((key) => {
+          options.get(key)!.count += 1;
+        });
+      });
+
+    result[facet] = [...options.values()].sort(
+      (a, b) => b.count - a.count || a.label.localeCompare(b.label)
+    );
+  });
+
+  return result;
+};
+
+// Items are kept newest-first, so "newest" is the stored order.
+export const applyFilters = (items: ClothingItem[], filters: WardrobeFilters): ClothingItem[] => {
+  const filtered = items.filter((item) => matchesAll(item, filters));
+  if (filters.sort === "newest") return filtered;
+
+  const sortKey = (item: ClothingItem) =>
+    filters.sort === "color" ? primaryColorName(item) : item.category;
+  return filtered
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => sortKey(a.item).localeCompare(sortKey(b.item)) || a.index - b.index)
+    .map(({ item }) => item);
+};
@@ -1,7 +1,40 @@
-import { GoogleGenAI, Schema, Type } from "@google/genai";
-import { ClothingItem, StylistResponse, OutfitCardData, OutfitSuggestion } from "../types";
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import {
+  FinishReason,
+  GenerateContentParameters,
+  GenerateContentResponse,
+  GoogleGenAI,
+  Part,
+  Schema,
+  Type,
+} from "@google/genai";
+import { ChatMessage, ClothingItem, ConversationContext, StylistResponse, StylistMode, StyleIdea, OutfitCardData, OutfitSuggestion, PlanDayRequest, WearEvent, WeatherContext } from "../types";
+import {
+  CATEGORIES,
+  SEASONS,
+  STYLE_TAGS,
+  FORMALITY_LEVELS,
+  normalizeTaxonomy,
+} from "./taxonomyService";
+import { describeRecentWear } from "./wearService";
+import { describeWeatherForPrompt } from "./weatherService";
+import { parsePartialJson } from "./partialJsonService";
+import { resolveImageBudget, selectCandidates } from "./candidateService";
+import { AIRequestError, RequestOptions, runRequest } from "./requestService";
+import { SummaryUpdate, describeConversation, describeMemory } from "./memoryService";
+import { MODE_DESCRIPTIONS, STYLIST_MODES, guessIntent, isStylistMode } from "./intentService";
+import { clampScore, createOutfitId, rankOutfits } from "./outfitService";
+import {
+  ValidationIssue,
+  describeIssues,
+  recordReprompt,
+  validateOutfitSuggestion,
+  validateStylistResponse,
+} from "./validationService";
+import { StylistProvider, StylistStreamOptions } from "./stylistProvider";
+
+// Created on first use so importing this module never needs a key.
+let client: GoogleGenAI | null = null;
+const getClient = () => (client ??= new GoogleGenAI({ apiKey: process.env.API_KEY }));
 
 const cleanBase64 = (base64: string) =>
   base64.replace(/^data:image\/(png|jpeg|jpg|webp);base64,/, "");
@@ -10,26 +43,109 @@ const getMimeType = (base64: string) => {
   return match ? match[1] : "image/jpeg";
 };
 
+// ----------------------------------------
+// Calling the model
+// ----------------------------------------
+const BLOCKED_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII,
+];
+
+// A blocked prompt or answer comes back as a normal response with no text.
+const checkBlocked = (response: GenerateContentResponse) => {
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (response.promptFeedback?.blockReason || BLOCKED_FINISH_REASONS.includes(finishReason)) {
+    throw new AIRequestError("safety", response.promptFeedback?.blockReason || finishReason);
+  }
+  return response;
+};
+
+// Tolerates text before the JSON (some answers open with a sentence).
+const parseJson = (text: string | undefined) => {
+  const raw = text || "";
+  const start = raw.indexOf("{");
+  try {
+    return JSON.parse(start >= 0 ? raw.slice(start) : raw);
+  } catch (error) {
+    throw new AIRequestError("parse", error);
+  }
+};
+
+const callModel = async (request: GenerateContentParameters, signal?: AbortSignal) =>
+  checkBlocked(await getClient().models.generateContent({ ...request, config: { ...request.config, abortSignal: signal } }));
+
+const generate = (request: GenerateContentParameters, options: RequestOptions) =>
+  runRequest(() => callModel(request, options.signal), options);
+
+// Parsing happens inside the retried task, so a garbled answer is asked for again.
+const generateJson = (request: GenerateContentParameters, options: RequestOptions) =>
+  runRequest(async () => parseJson((await callModel(request, options.signal)).text), options);
+
+// ----------------------------------------
+// Wardrobe in prompts
+// ----------------------------------------
+const describeItem = (item: ClothingItem) =>
+  `ID: ${item.id} - ${item.color} ${item.category} (${item.style.join(", ")})`;
+
+// The shortlist for this request, one ID line per item, each followed by
+// the item's photo until the image budget runs out.
+const describeWardrobe = (
+  wardrobe: ClothingItem[],
+  request: string,
+  wearLog: WearEvent[],
+  imageBudget = resolveImageBudget()
+): Part[] => {
+  const candidates = selectCandidates(wardrobe, request, wearLog);
+  if (!candidates.length) return [{ text: "USER WARDROBE:\nNo items uploaded." }];
+
+  const parts: Part[] = [];
+  let images = 0;
+  candidates.forEach((item) => {
+    parts.push({ text: describeItem(item) });
+    if (item.thumbnail && images < imageBudget) {
+      images++;
+      parts.push({ inlineData: { mimeType: getMimeType(item.thumbnail), data: cleanBase64(item.thumbnail) } });
+    }
+  });
+
+  const shortlist =
+    candidates.length < wardrobe.length
+      ? ` (${candidates.length} of ${wardrobe.length} items, shortlisted for this request; use only these)`
+      : "";
+  const photos = images ? `\nEach photo shows the item whose ID line comes right before it. Judge prints, textures and cuts from the photos.` : "";
+  return [{ text: `USER WARDROBE${shortlist}:${photos}` }, ...parts];
+};
+
 // ----------------------------------------
 // 1. Analyze Clothing Item
 // ----------------------------------------
 export const analyzeClothingImage = async (
-  base64Image: string
+  base64Image: string,
+  signal?: AbortSignal
 ): Promise<Partial<ClothingItem>> => {
   const schema: Schema = {
     type: Type.OBJECT,
     properties: {
-      category: { type: Type.STRING },
+      category: { type: Type.STRING, format: "enum", enum: CATEGORIES },
       color: { type: Type.STRING },
-      season: { type: Type.ARRAY, items: { type: Type.STRING } },
-      style: { type: Type.ARRAY, items: { type: Type.STRING } },
+      season: {
+        type: Type.ARRAY,
+        items: { type: Type.STRING, format: "enum", enum: SEASONS },
+      },
+      style: {
+        type: Type.ARRAY,
+        items: { type: Type.STRING, format: "enum", enum: STYLE_TAGS },
+      },
+      formality: { type: Type.STRING, format: "enum", enum: FORMALITY_LEVELS },
       description: { type: Type.STRING },
     },
-    required: ["category", "color", "season", "style", "description"],
+    required: ["category", "color", "season", "style", "formality", "description"],
   };
 
-  try {
-    const response = await ai.models.generateContent({
+  const result = await generateJson(
+    {
       model: "gemini-2.5-flash",
       contents: {
         parts: [
@@ -40,7 +156,7 @@ export const analyzeClothingImage = async (
             },
           },
           {
-            text: "Analyze this clothing item. Detect category, color, season, style, and description.",
+            text: "Analyze this clothing item. Detect category, color, season, style, formality, and description. Use only the allowed values for category, season, style and formality.",
           },
         ],
       },
@@ -48,227 +164,482 @@ export const analyzeClothingImage = async (
         responseMimeType: "application/json",
         responseSchema: schema,
       },
-    });
+    },
+    { label: "analyze", signal }
+  );
 
-    const result = JSON.parse(response.text || "{}");
-    return result;
-  } catch (error) {
-    console.error("Analysis failed", error);
-    return {
-      category: "Unknown",
-      color: "Unknown",
-      style: ["Casual"],
-      season: ["All-Year"],
-      description: "Could not analyze item.",
-    };
-  }
+  // The schema constrains the model, but normalize anyway in case it strays
+  return normalizeTaxonomy(result);
 };
 
 // ----------------------------------------
 // 2. Google Search Helper (Shopping Tab)
 // ----------------------------------------
-export const searchForItems = async (query: string) => {
-  try {
-    const response = await ai.models.generateContent({
+export const searchForItems = async (query: string, signal?: AbortSignal) => {
+  const response = await generate(
+    {
       model: "gemini-2.5-flash",
       contents: `Find fashion items for: ${query} in India.`,
       config: {
         tools: [{ googleSearch: {} }],
       },
-    });
+    },
+    { label: "search", signal }
+  );
 
-    return {
-      text: response.text || "No results found.",
-      groundingChunks:
-        response.candidates?.[0]?.groundingMetadata?.groundingChunks || [],
-    };
-  } catch (error) {
-    console.error("Search failed", error);
-    return { text: "Search unavailable.", groundingChunks: [] };
-  }
+  return {
+    text: response.text || "No results found.",
+    groundingChunks:
+      response.candidates?.[0]?.groundingMetadata?.groundingChunks || [],
+  };
 };
 
 // ----------------------------------------
 // 3. Wardrobe-first Stylist Engine
 // ----------------------------------------
-export const generateStylistResponse = async (
+// Appended on the one retry after an unusable answer.
+const describeCorrections = (issues: ValidationIssue[]) =>
+  issues.length
+    ? `
+YOUR PREVIOUS ANSWER WAS REJECTED:
+${describeIssues(issues)}
+Fix these problems. Use only IDs listed in the wardrobe, at most one item per footwear/bottom/dress slot, and full https:// links.
+`
+    : "";
+
+const inspirationSchema: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      title: { type: Type.STRING },
+      imageUrl: { type: Type.STRING },
+      link: { type: Type.STRING },
+    },
+  },
+};
+
+const shoppingSchema: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      name: { type: Type.STRING },
+      priceRange: { type: Type.STRING },
+      links: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            label: { type: Type.STRING },
+            url: { type: Type.STRING },
+          },
+        },
+      },
+    },
+  },
+};
+
+const outfitSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    reasoning: { type: Type.STRING },
+    matchScore: { type: Type.INTEGER, minimum: 0, maximum: 100 },
+    selectedItemIds: { type: Type.ARRAY, items: { type: Type.STRING } },
+    inspirationImages: inspirationSchema,
+    shopping: shoppingSchema,
+  },
+  required: ["title", "reasoning", "matchScore", "selectedItemIds", "inspirationImages", "shopping"],
+  propertyOrdering: ["title", "reasoning", "matchScore", "selectedItemIds", "inspirationImages", "shopping"],
+};
+
+const ideaSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    description: { type: Type.STRING },
+    keyPieces: { type: Type.ARRAY, items: { type: Type.STRING } },
+    wardrobeItemIds: { type: Type.ARRAY, items: { type: Type.STRING } },
+    inspirationImages: inspirationSchema,
+  },
+  required: ["title", "description", "keyPieces", "wardrobeItemIds", "inspirationImages"],
+  propertyOrdering: ["title", "description", "keyPieces", "wardrobeItemIds", "inspirationImages"],
+};
+
+// Message first in every mode, so streamed replies show text before anything else
+const responseSchema = (sections: Record<string, Schema>): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    message: { type: Type.STRING },
+    ...sections,
+    suggestions: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ["message", ...Object.keys(sections), "suggestions"],
+  propertyOrdering: ["message", ...Object.keys(sections), "suggestions"],
+});
+
+// What each mode asks for: the JSON shape shown to the model, its rules and
+// the schema that enforces them.
+const MODE_PROMPTS: Record<StylistMode, { shape: string; rules: string; schema: Schema }> = {
+  wardrobe_outfit: {
+    shape: `{
+  "message": string,
+  "outfits": [{
+    "title": string,
+    "reasoning": string,
+    "matchScore": number,
+    "selectedItemIds": [string],
+    "inspirationImages": [{ "title": string, "imageUrl": string, "link": string }],
+    "shopping": [{ "name": string, "priceRange": string, "links": [{ "label": string, "url": string }] }]
+  }],
+  "suggestions": [string]
+}`,
+    rules: `- ALWAYS use wardrobe first.
+- Avoid repeating items worn in the last few days unless the user asks for them.
+- Give 2–3 genuinely different outfits, best first. Each gets its own short title and reasoning.
+- matchScore is 0–100: how well that outfit fits the request. Be honest; alternatives should score lower.
+- Only after that, recommend items to buy, per outfit.
+- Provide up to 2 Pinterest inspiration images per outfit.
+- Provide up to 3 shopping suggestions per outfit with Myntra/Ajio/Amazon search links.`,
+    schema: responseSchema({
+      outfits: { type: Type.ARRAY, minItems: "1", maxItems: "3", items: outfitSchema },
+    }),
+  },
+  new_ideas: {
+    shape: `{
+  "message": string,
+  "ideas": [{
+    "title": string,
+    "description": string,
+    "keyPieces": [string],
+    "wardrobeItemIds": [string],
+    "inspirationImages": [{ "title": string, "imageUrl": string, "link": string }]
+  }],
+  "suggestions": [string]
+}`,
+    rules: `- Give 2–4 distinct style ideas or trends that suit the user.
+- keyPieces names the garments that define each idea.
+- wardrobeItemIds lists owned pieces that already fit the idea (may be empty).
+- Provide up to 3 Pinterest inspiration images per idea.`,
+    schema: responseSchema({
+      ideas: { type: Type.ARRAY, minItems: "1", maxItems: "4", items: ideaSchema },
+    }),
+  },
+  shopping_help: {
+    shape: `{
+  "message": string,
+  "shopping": [{ "name": string, "priceRange": string, "links": [{ "label": string, "url": string }] }],
+  "suggestions": [string]
+}`,
+    rules: `- Recommend 2–5 specific items to buy, with a realistic priceRange in INR.
+- Prefer pieces that work with what the user already owns; say so in the message.
+- Give Myntra/Ajio/Amazon search links for each item.`,
+    schema: responseSchema({ shopping: shoppingSchema }),
+  },
+  chat: {
+    shape: `{
+  "message": string,
+  "suggestions": [string]
+}`,
+    rules: `- Just reply conversationally; do not propose outfits or products.
+- Offer 1–3 quick replies that lead back to styling.`,
+    schema: responseSchema({}),
+  },
+};
+
+// Keyword rules settle the obvious cases; the model only breaks ties.
+export const classifyIntent = async (
+  message: string,
+  context: ConversationContext,
+  signal?: AbortSignal
+): Promise<StylistMode> => {
+  const guess = guessIntent(message);
+  if (guess.confident) return guess.mode;
+
+  const recent = describeConversation(context.recent.slice(-4));
+
+  try {
+    const parsed = await generateJson(
+      {
+        model: "gemini-2.5-flash",
+        contents: `Classify what the user wants from their stylist.
+
+MODES:
+${STYLIST_MODES.map((mode) => `- ${mode}: ${MODE_DESCRIPTIONS[mode]}`).join("\n")}
+
+RECENT CHAT:
+${recent || "None."}
+
+USER SAID: "${message}"`,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: { mode: { type: Type.STRING, format: "enum", enum: STYLIST_MODES } },
+            required: ["mode"],
+          },
+        },
+      },
+      // Only a tie-breaker: one attempt, then the keyword guess stands
+      { label: "classify", signal, maxAttempts: 1 }
+    );
+    return isStylistMode(parsed.mode) ? parsed.mode : guess.mode;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.warn("Intent classification failed", error);
+    return guess.mode;
+  }
+};
+
+const buildStylistRequest = (
+  mode: StylistMode,
   message: string,
   wardrobe: ClothingItem[],
-  history: any[]
-): Promise<StylistResponse> => {
-  const wardrobeDesc = wardrobe
-    .map(
-      (item) =>
-        `ID: ${item.id} - ${item.color} ${item.category} (${item.style.join(
-          ", "
-        )})`
-    )
-    .join("\n");
-
-  const historyText = history
-    .map((h) => `${h.role}: ${h.content}`)
-    .join("\n");
+  context: ConversationContext,
+  wearLog: WearEvent[],
+  corrections: ValidationIssue[] = []
+): GenerateContentParameters => {
+  // Chat replies don't pick clothes, so they go without photos.
+  const wardrobeParts = describeWardrobe(wardrobe, message, wearLog, mode === "chat" ? 0 : undefined);
+  const recentWear = describeRecentWear(wardrobe, wearLog);
+  const { shape, rules, schema } = MODE_PROMPTS[mode];
 
   const systemPrompt = `
 You are "AI Style Mate", a wardrobe-first stylist. OUTPUT ONLY CLEAN JSON.
 
 JSON Schema:
-{
-  "message": string,
-  "selectedItemIds": [string],
-  "inspirationImages": [{ "title": string, "imageUrl": string, "link": string }],
-  "shopping": [{ "name": string, "priceRange": string, "links": [{ "label": string, "url": string }] }],
-  "suggestions": [string]
-}
+${shape}
 `;
 
-  const context = `
-USER WARDROBE:
-${wardrobeDesc || "No items uploaded."}
-
+  const details = `
 USER SAID: "${message}"
 
-CHAT HISTORY:
-${historyText}
+${describeMemory(context)}
+
+RECENTLY WORN (last 14 days):
+${recentWear || "Nothing logged."}
+
+${describeWeatherForPrompt(context.weather)}
 
 RULES:
-- ALWAYS use wardrobe first.
-- Only after that, recommend items to buy.
-- Provide up to 3 Pinterest inspiration images.
-- Provide up to 3 shopping suggestions with Myntra/Ajio/Amazon search links.
+${rules}
+- Never go against USER FACTS.
 - KEEP MESSAGE SHORT (3–6 lines).
 - OUTPUT STRICT JSON ONLY.
-`;
+${describeCorrections(corrections)}`;
+
+  return {
+    model: "gemini-2.5-flash",
+    contents: [{ role: "user", parts: [{ text: systemPrompt }, ...wardrobeParts, { text: details }] }],
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: schema,
+    },
+  };
+};
 
-  const schema: Schema = {
-    type: Type.OBJECT,
-    properties: {
-      message: { type: Type.STRING },
-      selectedItemIds: { type: Type.ARRAY, items: { type: Type.STRING } },
-      inspirationImages: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            title: { type: Type.STRING },
-            imageUrl: { type: Type.STRING },
-            link: { type: Type.STRING },
-          },
-        },
-      },
-      shopping: {
-        type: Type.ARRAY,
-        items: {
+// ------------------------------
+// Convert MODEL → APP STRUCTURE
+// ------------------------------
+const toPinterestLooks = (images: any) =>
+  (Array.isArray(images) ? images : []).map((p: any, i: number) => ({
+    title: p.title || `Look ${i + 1}`,
+    description: "",
+    previewImageUrl: p.imageUrl || "",
+    pinterestUrl: p.link || "",
+  }));
+
+const toMissingItems = (shopping: any, idPrefix: string) =>
+  (Array.isArray(shopping) ? shopping : []).map((item: any, i: number) => {
+    const shoppingOptions =
+      item.links?.map((ln: any) => ({
+        storeName: ln.label || "Store",
+        url: ln.url,
+        price: item.priceRange || "N/A",
+        type: "online" as const,
+      })) || [];
+
+    return {
+      id: `${idPrefix}-${i}`,
+      name: item.name || `Item ${i + 1}`,
+      pinterestQuery: item.name || "",
+      shoppingOptions,
+    };
+  });
+
+const toOutfitCard = (outfit: any, index: number, stamp: number): OutfitCardData => {
+  const selectedItemIds: string[] = Array.isArray(outfit.selectedItemIds) ? outfit.selectedItemIds : [];
+  const title = outfit.title || `Option ${index + 1}`;
+
+  return {
+    id: createOutfitId(selectedItemIds, title),
+    title,
+    description: outfit.reasoning || "",
+    matchScore: clampScore(outfit.matchScore),
+    selectedItemIds,
+    missingItems: toMissingItems(outfit.shopping, `missing-${index}-${stamp}`),
+    pinterestLooks: toPinterestLooks(outfit.inspirationImages),
+    reasoning: outfit.reasoning || "",
+  };
+};
+
+const toStyleIdea = (idea: any, index: number, stamp: number): StyleIdea => ({
+  id: `idea-${index}-${stamp}`,
+  title: idea.title || `Idea ${index + 1}`,
+  description: idea.description || "",
+  keyPieces: Array.isArray(idea.keyPieces) ? idea.keyPieces : [],
+  wardrobeItemIds: Array.isArray(idea.wardrobeItemIds) ? idea.wardrobeItemIds : [],
+  pinterestLooks: toPinterestLooks(idea.inspirationImages),
+});
+
+// `isComplete` tells which top-level fields are final; while streaming,
+// sections are only built once their field has closed.
+const toStylistResponse = (
+  mode: StylistMode,
+  parsed: any,
+  isComplete: (key: string) => boolean = () => true,
+  stamp = Date.now()
+): StylistResponse => {
+  const ready = (key: string) => isComplete(key) && Array.isArray(parsed[key]);
+
+  const response: StylistResponse = {
+    mode,
+    message: typeof parsed.message === "string" ? parsed.message : "",
+    outfits: ready("outfits")
+      ? rankOutfits(parsed.outfits.map((outfit: any, i: number) => toOutfitCard(outfit, i, stamp)))
+      : [],
+    suggestions: ready("suggestions") ? parsed.suggestions : [],
+  };
+  if (ready("ideas")) response.ideas = parsed.ideas.map((idea: any, i: number) => toStyleIdea(idea, i, stamp));
+  if (ready("shopping")) response.shoppingItems = toMissingItems(parsed.shopping, `shop-${stamp}`);
+  return response;
+};
+
+const UNUSABLE_REPLY = "I couldn't put together a valid answer from your wardrobe for that. Could you rephrase or add more detail?";
+
+const requestStylistResponse = async (mode: StylistMode, request: GenerateContentParameters, signal?: AbortSignal) => {
+  const parsed = await generateJson(request, { label: `stylist (${mode})`, signal });
+
+  // Normalize arrays
+  parsed.suggestions = parsed.suggestions ?? [];
+
+  return toStylistResponse(mode, parsed);
+};
+
+// Checks an answer against the wardrobe and, if it's unusable, asks once
+// more with the problems spelled out.
+const validateOrRetry = async (
+  response: StylistResponse,
+  retry: (issues: ValidationIssue[]) => Promise<StylistResponse>,
+  wardrobe: ClothingItem[]
+) => {
+  let result = validateStylistResponse(response, wardrobe);
+  if (!result.usable) {
+    recordReprompt();
+    result = validateStylistResponse(await retry(result.issues), wardrobe);
+  }
+  return result.usable ? result.value : { ...result.value, message: result.value.message || UNUSABLE_REPLY };
+};
+
+// Failures reject with an AIRequestError rather than a stand-in answer.
+export const generateStylistResponse = async (
+  message: string,
+  wardrobe: ClothingItem[],
+  context: ConversationContext,
+  wearLog: WearEvent[] = []
+): Promise<StylistResponse> => {
+  const mode = await classifyIntent(message, context);
+  const request = (corrections?: ValidationIssue[]) =>
+    requestStylistResponse(mode, buildStylistRequest(mode, message, wardrobe, context, wearLog, corrections));
+
+  return validateOrRetry(await request(), request, wardrobe);
+};
+
+// Same request, streamed. `onPartial` receives a growing response after each
+// chunk; the resolved value is the final one. Stopping via `signal` rejects
+// with an "aborted" AIRequestError and leaves the last partial as the
+// caller's to keep. A stream that breaks off is restarted from scratch by
+// the request layer; a retry after an unusable answer is not streamed.
+export const streamStylistResponse = async (
+  message: string,
+  wardrobe: ClothingItem[],
+  context: ConversationContext,
+  wearLog: WearEvent[] = [],
+  { onPartial, signal }: StylistStreamOptions
+): Promise<StylistResponse> => {
+  const stamp = Date.now();
+  const mode = await classifyIntent(message, context, signal);
+  const request = buildStylistRequest(mode, message, wardrobe, context, wearLog);
+  const retry = (corrections: ValidationIssue[]) =>
+    requestStylistResponse(mode, buildStylistRequest(mode, message, wardrobe, context, wearLog, corrections), signal);
+
+  const final = await runRequest(
+    async () => {
+      let raw = "";
+      const stream = await getClient().models.generateContentStream({
+        ...request,
+        config: { ...request.config, abortSignal: signal },
+      });
+
+      for await (const chunk of stream) {
+        signal?.throwIfAborted();
+        checkBlocked(chunk);
+        raw += chunk.text || "";
+        const partial = parsePartialJson(raw);
+        const response = toStylistResponse(mode, partial.value, (key) => partial.completeKeys.has(key), stamp);
+        onPartial(validateStylistResponse(response, wardrobe, { record: false }).value);
+      }
+
+      const parsed = parsePartialJson(raw);
+      if (!parsed.complete) throw new AIRequestError("parse", "Stylist stream ended before the JSON was closed");
+      return parsed.value;
+    },
+    { label: `stylist stream (${mode})`, signal }
+  );
+
+  return validateOrRetry(toStylistResponse(mode, final, () => true, stamp), retry, wardrobe);
+};
+
+// Rolls older turns into the running summary and picks out anything the
+// user said about themselves that should outlive the chat.
+export const summarizeConversation = async (
+  previousSummary: string,
+  messages: ChatMessage[]
+): Promise<SummaryUpdate> => {
+  const parsed = await generateJson(
+    {
+      model: "gemini-2.5-flash",
+      contents: `You maintain the memory of a styling chat.
+
+SUMMARY SO FAR:
+${previousSummary || "Nothing yet."}
+
+NEW TURNS:
+${describeConversation(messages)}
+
+Return JSON with:
+- "summary": the summary so far updated with the new turns, at most 8 short sentences. Keep occasions, decisions and outfits the user liked or rejected; drop small talk.
+- "facts": durable things the user stated about themselves (e.g. "Doesn't wear heels", "Office is business casual"). Only facts from the new turns, phrased in the third person. Empty if none.`,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
           type: Type.OBJECT,
           properties: {
-            name: { type: Type.STRING },
-            priceRange: { type: Type.STRING },
-            links: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  label: { type: Type.STRING },
-                  url: { type: Type.STRING },
-                },
-              },
-            },
+            summary: { type: Type.STRING },
+            facts: { type: Type.ARRAY, items: { type: Type.STRING } },
           },
+          required: ["summary", "facts"],
+          propertyOrdering: ["summary", "facts"],
         },
       },
-      suggestions: { type: Type.ARRAY, items: { type: Type.STRING } },
     },
-    required: [
-      "message",
-      "selectedItemIds",
-      "inspirationImages",
-      "shopping",
-      "suggestions",
-    ],
+    { label: "summarize" }
+  );
+  return {
+    summary: typeof parsed.summary === "string" ? parsed.summary : previousSummary,
+    facts: (Array.isArray(parsed.facts) ? parsed.facts : []).filter((f: unknown) => typeof f === "string" && f.trim()),
   };
-
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: systemPrompt + "\n" + context,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: schema,
-      },
-    });
-
-    // Clean JSON parsing
-    const raw = (response.text || "").toString();
-    const start = raw.indexOf("{");
-    const parsed = JSON.parse(start >= 0 ? raw.slice(start) : "{}");
-
-    // Normalize arrays
-    parsed.selectedItemIds = parsed.selectedItemIds ?? [];
-    parsed.inspirationImages = parsed.inspirationImages ?? [];
-    parsed.shopping = parsed.shopping ?? [];
-    parsed.suggestions = parsed.suggestions ?? [];
-
-    // ------------------------------
-    // Convert MODEL → APP STRUCTURE
-    // ------------------------------
-
-    // pinterestLooks (your types)
-    const pinterestLooks = parsed.inspirationImages.map(
-      (p: any, i: number) => ({
-        title: p.title || `Look ${i + 1}`,
-        description: "",
-        previewImageUrl: p.imageUrl || "",
-        pinterestUrl: p.link || "",
-      })
-    );
-
-    // missingItems (your types)
-    const missingItems = parsed.shopping.map((item: any, i: number) => {
-      const shoppingOptions =
-        item.links?.map((ln: any) => ({
-          storeName: ln.label || "Store",
-          url: ln.url,
-          price: item.priceRange || "N/A",
-          type: "online" as const,
-        })) || [];
-
-      return {
-        id: `missing-${i}-${Date.now()}`,
-        name: item.name || `Item ${i + 1}`,
-        pinterestQuery: item.name || "",
-        shoppingOptions,
-      };
-    });
-
-    // OutfitCardData
-    const outfits: OutfitCardData[] = [
-      {
-        id: "generated-outfit",
-        title: "Your Outfit",
-        description: parsed.message,
-        matchScore: 100,
-        selectedItemIds: parsed.selectedItemIds,
-        missingItems,
-        pinterestLooks,
-        reasoning: parsed.message || "",
-      },
-    ];
-
-    return {
-      mode: "wardrobe_outfit",
-      message: parsed.message,
-      outfits,
-      suggestions: parsed.suggestions,
-    };
-  } catch (error) {
-    console.error("Stylist generation failed", error);
-    return {
-      mode: "wardrobe_outfit",
-      message: "Network issue occurred.",
-      outfits: [],
-      suggestions: ["Try again"],
-    };
-  }
 };
 
 // ----------------------------------------
@@ -277,26 +648,25 @@ RULES:
 export const generateOutfit = async (
   wardrobe: ClothingItem[],
   occasion: string,
-  notes: string
+  notes: string,
+  wearLog: WearEvent[] = [],
+  signal?: AbortSignal,
+  weather?: WeatherContext
 ): Promise<OutfitSuggestion> => {
   if (!wardrobe.length) throw new Error("Wardrobe empty");
 
-  const wardrobeDesc = wardrobe
-    .map(
-      (item) =>
-        `ID: ${item.id} - ${item.color} ${item.category} (${item.style.join(
-          ", "
-        )})`
-    )
-    .join("\n");
+  const wardrobeParts = describeWardrobe(wardrobe, `${occasion} ${notes}`, wearLog);
 
-  const prompt = `
+  const brief = `
 Select the best outfit from wardrobe for:
 Occasion = "${occasion}"
 Notes = "${notes}"
+${describeWeatherForPrompt(weather)}
+`;
 
-Wardrobe:
-${wardrobeDesc}
+  const prompt = `
+Recently worn (last 14 days, avoid repeating these if there are good alternatives):
+${describeRecentWear(wardrobe, wearLog) || "Nothing logged."}
 
 Return JSON only.
 `;
@@ -319,32 +689,124 @@ Return JSON only.
     ],
   };
 
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: schema,
+  const request = async (corrections: ValidationIssue[] = []) => {
+    const parsed = await generateJson(
+      {
+        model: "gemini-2.5-flash",
+        contents: [
+          { role: "user", parts: [{ text: brief }, ...wardrobeParts, { text: prompt + describeCorrections(corrections) }] },
+        ],
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: schema,
+        },
       },
-    });
+      { label: "outfit", signal }
+    );
+    return validateOutfitSuggestion(parsed as OutfitSuggestion, wardrobe);
+  };
 
-    return JSON.parse(response.text || "{}") as OutfitSuggestion;
-  } catch (error) {
-    console.error("Generate outfit failed", error);
-    return {
-      outfitName: "Error",
-      description: "Please try again.",
-      reasoning: "",
-      selectedItemIds: [],
-      missingItems: [],
-    };
+  let result = await request();
+  if (!result.usable) {
+    recordReprompt();
+    result = await request(result.issues);
+  }
+  // Still nothing usable after the correction; don't pass off an empty outfit
+  if (!result.usable) throw new AIRequestError("parse", result.issues);
+  return result.value;
+};
+
+// ----------------------------------------
+// 5. Plan the Week (Calendar)
+// ----------------------------------------
+const WEEK_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    days: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          date: { type: Type.STRING },
+          outfitName: { type: Type.STRING },
+          description: { type: Type.STRING },
+          reasoning: { type: Type.STRING },
+          selectedItemIds: { type: Type.ARRAY, items: { type: Type.STRING } },
+          missingItems: { type: Type.ARRAY, items: { type: Type.STRING } },
+        },
+        required: ["date", "outfitName", "description", "reasoning", "selectedItemIds", "missingItems"],
+      },
+    },
+  },
+  required: ["days"],
+};
+
+export const planWeek = async (
+  wardrobe: ClothingItem[],
+  days: PlanDayRequest[],
+  wearLog: WearEvent[] = [],
+  signal?: AbortSignal
+): Promise<OutfitSuggestion[]> => {
+  if (!wardrobe.length) throw new Error("Wardrobe empty");
+
+  const occasions = days.map((day) => day.occasion).join(" ");
+  const wardrobeParts = describeWardrobe(wardrobe, occasions, wearLog);
+
+  const brief = `
+Plan one outfit from the wardrobe for each of these days:
+${days.map((day) => `${day.date}: ${day.occasion || "Everyday"}`).join("\n")}
+`;
+
+  const prompt = `
+Recently worn (last 14 days):
+${describeRecentWear(wardrobe, wearLog) || "Nothing logged."}
+
+Rules:
+- Return exactly one entry per day above, with its date.
+- Never put the same item on two consecutive days, and use no item more than 3 times in the week.
+- Avoid items worn in the last few days if there are good alternatives.
+
+Return JSON only.
+`;
+
+  const request = async (corrections: ValidationIssue[] = []) => {
+    const parsed = await generateJson(
+      {
+        model: "gemini-2.5-flash",
+        contents: [
+          { role: "user", parts: [{ text: brief }, ...wardrobeParts, { text: prompt + describeCorrections(corrections) }] },
+        ],
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: WEEK_SCHEMA,
+        },
+      },
+      { label: "plan-week", signal }
+    );
+    const proposed: any[] = Array.isArray(parsed.days) ? parsed.days : [];
+    // Matched by date; a model that dropped the dates is taken in order
+    return days.map((day, i) =>
+      validateOutfitSuggestion(proposed.find((p) => p?.date === day.date) || proposed[i] || {}, wardrobe)
+    );
+  };
+
+  let results = await request();
+  if (results.some((result) => !result.usable)) {
+    recordReprompt();
+    const retried = await request(results.flatMap((result) => result.issues));
+    results = results.map((result, i) => (result.usable ? result : retried[i]));
   }
+  return results.map((result) => result.value);
 };
 
 // ----------------------------------------
-export const generateOutfitVisualization = async (
-  description: string
-): Promise<string | null> => {
-  return null;
+export const geminiProvider: StylistProvider = {
+  name: "gemini",
+  analyzeClothingImage,
+  searchForItems,
+  generateStylistResponse,
+  streamStylistResponse,
+  summarizeConversation,
+  generateOutfit,
+  planWeek,
 };
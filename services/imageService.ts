@@ -0,0 +1,150 @@
+// ----------------------------------------
+// Client-side image preprocessing
+// ----------------------------------------
+// Wardrobe photos straight off a phone are several MB each. Before anything is
+// stored or sent to the model we bake in the EXIF orientation, downscale and
+// re-encode them, and cut a small thumbnail for grids.
+
+export const IMAGE_SETTINGS = {
+  maxDimension: 1600,
+  quality: 0.85,
+  thumbnailDimension: 320,
+  thumbnailQuality: 0.7,
+};
+
+export interface ProcessedImage {
+  image: string; // Downscaled full-size data URL, used for analysis and detail views
+  thumbnail: string; // Small data URL for grids
+  width: number;
+  height: number;
+}
+
+// ----------------------------------------
+// Data URL helpers
+// ----------------------------------------
+export const dataUrlToBytes = (dataUrl: string): { mimeType: string; bytes: Uint8Array } | null => {
+  const match = dataUrl.match(/^data:([^;,]+);base64,(.*)$/);
+  if (!match) return null;
+  let binary: string;
+  try {
+    binary = atob(match[2]);
+  } catch {
+    return null;
+  }
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return { mimeType: match[1], bytes };
+};
+
+export const bytesToDataUrl = (bytes: Uint8Array, mimeType: string) => {
+  let binary = "";
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+interface DecodedImage {
+  source: CanvasImageSource;
+  width: number;
+  height: number;
+  release: () => void;
+}
+
+let webpSupport: boolean | null = null;
+
+const supportsWebp = () => {
+  if (webpSupport === null) {
+    const canvas = document.createElement("canvas");
+    canvas.width = canvas.height = 1;
+    webpSupport = canvas.toDataURL("image/webp").startsWith("data:image/webp");
+  }
+  return webpSupport;
+};
+
+// Decodes with the EXIF orientation applied. Re-encoding through a canvas
+// drops the EXIF block, so the rotation is fixed for good.
+export const decodeImage = async (blob: Blob): Promise<DecodedImage> => {
+  if (typeof createImageBitmap === "function") {
+    try {
+      const bitmap = await createImageBitmap(blob, { imageOrientation: "from-image" });
+      return { source: bitmap, width: bitmap.width, height: bitmap.height, release: () => bitmap.close() };
+    } catch {
+      // Fall through to <img>, which also honours EXIF orientation when drawn.
+    }
+  }
+
+  const url = URL.createObjectURL(blob);
+  const img = new Image();
+  img.src = url;
+  try {
+    await img.decode();
+  } catch (error) {
+    URL.revokeObjectURL(url);
+    throw error;
+  }
+  return {
+    source: img,
+    width: img.naturalWidth,
+    height: img.naturalHeight,
+    release: () => URL.revokeObjectURL(url),
+  };
+};
+
+const fitWithin = (width: number, height: number, maxDimension: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+};
+
+const renderToDataUrl = (
+  decoded: DecodedImage,
+  maxDimension: number,
+  quality: number
+) => {
+  const { width, height } = fitWithin(decoded.width, decoded.height, maxDimension);
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+
+  const webp = supportsWebp();
+  if (!webp) {
+    // JPEG has no alpha; keep transparent PNGs from turning black.
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(decoded.source, 0, 0, width, height);
+
+  return {
+    dataUrl: canvas.toDataURL(webp ? "image/webp" : "image/jpeg", quality),
+    width,
+    height,
+  };
+};
+
+export const preprocessImage = async (
+  file: Blob,
+  settings = IMAGE_SETTINGS
+): Promise<ProcessedImage> => {
+  const decoded = await decodeImage(file);
+  try {
+    const full = renderToDataUrl(decoded, settings.maxDimension, settings.quality);
+    const thumb = renderToDataUrl(decoded, settings.thumbnailDimension, settings.thumbnailQuality);
+    return {
+      image: full.dataUrl,
+      thumbnail: thumb.dataUrl,
+      width: full.width,
+      height: full.height,
+    };
+  } finally {
+    decoded.release();
+  }
+};
@@ -0,0 +1,264 @@
+import { ClothingItem, DuplicateChoice, IngestJob, IngestStatus } from "../types";
+import { deleteIngestJobs, loadIngestJobs, saveIngestJob } from "./storageService";
+import { preprocessImage } from "./imageService";
+import { DUPLICATE_THRESHOLD, findDuplicate, getItemHash, hammingDistance, hashDataUrl } from "./duplicateService";
+import { extractPalette } from "./colorService";
+import { analyzeClothingImage } from "./stylistProvider";
+import { AIRequestError } from "./requestService";
+
+// ----------------------------------------
+// Upload queue
+// ----------------------------------------
+// Uploads become jobs that are processed a few at a time and saved as they
+// go, so a large import picks up where it left off after a reload. The
+// queue lives at module level: the wardrobe view subscribes to it and
+// connects the handlers that touch app state, and new work only starts
+// while a view is connected.
+
+export const INGEST_SETTINGS = {
+  concurrency: 3,
+};
+
+export interface IngestHandlers {
+  getItems: () => ClothingItem[];
+  addItem: (item: ClothingItem) => void;
+  updateItem: (item: ClothingItem) => void;
+}
+
+// Still needs the machine or the user.
+const OPEN: IngestStatus[] = ["pending", "analyzing", "duplicate"];
+
+let jobs: IngestJob[] = [];
+let handlers: IngestHandlers | null = null;
+let restored: Promise<void> | null = null;
+// "Do the same for other duplicates", until the queue next runs dry
+let rememberedChoice: DuplicateChoice | null = null;
+const running = new Map<string, Promise<void>>();
+// Duplicate checks run one at a time; see `checkDuplicate`
+let checking: Promise<unknown> = Promise.resolve();
+const listeners = new Set<(jobs: IngestJob[]) => void>();
+
+const publish = () => listeners.forEach((listener) => listener(jobs));
+
+// Saving is best effort; a job that didn't persist only loses reload safety.
+const put = (job: IngestJob) => {
+  jobs = jobs.some((j) => j.id === job.id) ? jobs.map((j) => (j.id === job.id ? job : j)) : [...jobs, job];
+  publish();
+  saveIngestJob(job).catch((error) => console.warn("[ingest] save failed", error));
+};
+
+const patch = (id: string, changes: Partial<IngestJob>) => {
+  const job = jobs.find((j) => j.id === id);
+  if (job) put({ ...job, ...changes });
+  return job ? { ...job, ...changes } : null;
+};
+
+const drop = (ids: string[]) => {
+  jobs = jobs.filter((j) => !ids.includes(j.id));
+  publish();
+  deleteIngestJobs(ids).catch((error) => console.warn("[ingest] delete failed", error));
+};
+
+const finish = (id: string, itemId: string) => patch(id, { status: "done", itemId, file: undefined, error: undefined });
+
+const describeFailure = (error: unknown) =>
+  error instanceof AIRequestError ? error.message : "Couldn't read this image.";
+
+// A job cut off by a reload starts over.
+const restore = () =>
+  (restored ??= loadIngestJobs()
+    .then((saved) => {
+      const known = new Set(jobs.map((j) => j.id));
+      const resumed = saved
+        .filter((job) => !known.has(job.id))
+        .map((job): IngestJob => (job.status === "analyzing" ? { ...job, status: "pending" } : job));
+      jobs = [...resumed, ...jobs];
+      publish();
+    })
+    .catch((error) => console.warn("[ingest] restore failed", error)));
+
+const findMatch = async (imageHash: string, items: ClothingItem[]) => {
+  const known = await Promise.all(items.map(async (item) => ({ item, hash: await getItemHash(item) })));
+  return findDuplicate(imageHash, known);
+};
+
+// Jobs run side by side, so the wardrobe alone doesn't know about pieces
+// still being analyzed from the same upload. Checks take turns, and each job
+// records its hash before the next check starts; a copy of a job still
+// running waits for it and then counts as a copy of its item.
+const checkDuplicate = async (job: IngestJob, imageHash: string, items: ClothingItem[]): Promise<string | null> => {
+  const turn = checking.then(async () => {
+    const match = await findMatch(imageHash, items);
+    if (match) return { itemId: match.item.id };
+    const twin = jobs.find(
+      (j) =>
+        j.id !== job.id &&
+        j.imageHash &&
+        (j.status === "analyzing" || j.status === "done") &&
+        hammingDistance(j.imageHash, imageHash) <= DUPLICATE_THRESHOLD
+    );
+    patch(job.id, { imageHash });
+    return { twinId: twin?.id };
+  });
+  checking = turn.catch(() => undefined);
+
+  const found = await turn;
+  if (found.itemId || !found.twinId) return found.itemId || null;
+  // Waiting for the twin happens outside the turn, so other checks go on
+  await running.get(found.twinId);
+  const twin = jobs.find((j) => j.id === found.twinId);
+  return twin?.status === "done" && twin.itemId ? twin.itemId : null;
+};
+
+const processJob = async (job: IngestJob, { getItems, addItem }: IngestHandlers) => {
+  patch(job.id, { status: "analyzing", error: undefined });
+  try {
+    if (!job.file) throw new Error("Original file missing");
+    // Orient, downscale and re-encode before storing or uploading
+    const { image, thumbnail } = await preprocessImage(job.file);
+    patch(job.id, { thumbnail });
+
+    // Check for duplicates before spending an API call
+    const imageHash = await hashDataUrl(thumbnail).catch(() => undefined);
+    if (imageHash && job.allowDuplicate) patch(job.id, { imageHash });
+    const duplicateOf = imageHash && !job.allowDuplicate ? await checkDuplicate(job, imageHash, getItems()) : null;
+    if (duplicateOf) {
+      const waiting = patch(job.id, { status: "duplicate", duplicateOf });
+      if (waiting && rememberedChoice) await applyChoice(waiting, rememberedChoice);
+      return;
+    }
+
+    // Analyze with the stylist, extract swatches locally
+    const [analysis, palette] = await Promise.all([
+      analyzeClothingImage(image),
+      extractPalette(thumbnail).catch(() => []),
+    ]);
+
+    const item: ClothingItem = {
+      id: crypto.randomUUID(),
+      image,
+      thumbnail,
+      imageHash,
+      palette,
+      category: analysis.category || "Unknown",
+      color: analysis.color || "Unknown",
+      season: analysis.season || [],
+      style: analysis.style || [],
+      formality: analysis.formality,
+      description: analysis.description,
+    };
+    addItem(item);
+    finish(job.id, item.id);
+  } catch (error) {
+    console.error(`Failed to analyze image ${job.fileName}`, error);
+    patch(job.id, { status: "failed", error: describeFailure(error) });
+  }
+};
+
+const pump = () => {
+  if (!handlers) return;
+  const connected = handlers;
+  const ready = jobs.filter((j) => j.status === "pending" && !running.has(j.id));
+  while (running.size < INGEST_SETTINGS.concurrency && ready.length) {
+    const job = ready.shift()!;
+    running.set(
+      job.id,
+      processJob(job, connected).finally(() => {
+        running.delete(job.id);
+        pump();
+      })
+    );
+  }
+  if (!jobs.some((j) => OPEN.includes(j.status))) rememberedChoice = null;
+};
+
+const applyChoice = async (job: IngestJob, choice: DuplicateChoice) => {
+  if (choice === "skip") return drop([job.id]);
+
+  const existing = handlers?.getItems().find((item) => item.id === job.duplicateOf);
+  if (choice === "keep" || !existing || !job.file) {
+    patch(job.id, { status: "pending", allowDuplicate: true, duplicateOf: undefined });
+    return pump();
+  }
+
+  try {
+    const { image, thumbnail } = await preprocessImage(job.file);
+    const imageHash = await hashDataUrl(thumbnail).catch(() => undefined);
+    const palette = await extractPalette(thumbnail).catch(() => existing.palette);
+    handlers?.updateItem({ ...existing, image, thumbnail, imageHash, palette });
+    finish(job.id, existing.id);
+  } catch (error) {
+    patch(job.id, { status: "failed", error: describeFailure(error) });
+  }
+};
+
+// ----------------------------------------
+// Public API
+// ----------------------------------------
+export const subscribeIngest = (listener: (jobs: IngestJob[]) => void) => {
+  listeners.add(listener);
+  listener(jobs);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Returns the disconnect function; jobs already running finish regardless.
+export const connectIngest = (next: IngestHandlers) => {
+  handlers = next;
+  restore().then(pump);
+  return () => {
+    if (handlers === next) handlers = null;
+  };
+};
+
+export const enqueueFiles = (files: File[]) => {
+  files.forEach((file) =>
+    put({ id: crypto.randomUUID(), fileName: file.name, file, status: "pending", createdAt: Date.now() })
+  );
+  pump();
+};
+
+export const resolveDuplicate = (id: string, choice: DuplicateChoice, applyToAll = false) => {
+  if (applyToAll) rememberedChoice = choice;
+  jobs
+    .filter((job) => job.status === "duplicate" && (applyToAll || job.id === id))
+    .forEach((job) => applyChoice(job, choice));
+};
+
+export const retryJobs = (ids: string[]) => {
+  ids.forEach((id) => patch(id, { status: "pending", error: undefined }));
+  pump();
+};
+
+// Adds the photo with placeholder details for the user to fill in; returns
+// the new item's id, or null if the photo itself can't be read.
+export const addJobManually = async (id: string): Promise<string | null> => {
+  const job = jobs.find((j) => j.id === id);
+  if (!job?.file || !handlers) return null;
+  try {
+    const { image, thumbnail } = await preprocessImage(job.file);
+    const imageHash = await hashDataUrl(thumbnail).catch(() => undefined);
+    const palette = await extractPalette(thumbnail).catch(() => []);
+    const item: ClothingItem = {
+      id: crypto.randomUUID(),
+      image,
+      thumbnail,
+      imageHash,
+      palette,
+      category: "Unknown",
+      color: palette[0]?.name || "Unknown",
+      season: [],
+      style: [],
+      description: "",
+    };
+    handlers.addItem(item);
+    finish(id, item.id);
+    return item.id;
+  } catch (error) {
+    patch(id, { error: describeFailure(error) });
+    return null;
+  }
+};
+
+export const dismissJobs = (ids: string[]) => drop(ids.filter((id) => !running.has(id)));
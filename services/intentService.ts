@@ -0,0 +1,42 @@
+import { StylistMode } from "../types";
+
+// ----------------------------------------
+// Intent routing
+// ----------------------------------------
+// Decides which kind of answer a chat message wants. Clear-cut cases are
+// settled by the keyword rules below; the rest are marked unsure so a
+// provider can ask its model instead.
+
+export const STYLIST_MODES: StylistMode[] = ["wardrobe_outfit", "new_ideas", "shopping_help", "chat"];
+
+export const MODE_DESCRIPTIONS: Record<StylistMode, string> = {
+  wardrobe_outfit: "wants an outfit put together from their own wardrobe (an occasion, a day, 'what should I wear')",
+  new_ideas: "wants inspiration, trends or new style directions rather than a specific outfit",
+  shopping_help: "wants to buy something: what to get, where, or at what price",
+  chat: "small talk, thanks, greetings or questions that need no outfit, ideas or products",
+};
+
+export interface IntentGuess {
+  mode: StylistMode;
+  confident: boolean;
+}
+
+const RULES: [RegExp, StylistMode][] = [
+  [/^((hi|hello|hey|thanks|thank you|thx|ok|okay|cool|great|nice|bye|good (morning|night|evening))\b[\s!.,]*)+$/i, "chat"],
+  [/\b(buy|shop|shopping|purchase|order|where can i (get|find)|budget|price|under (rs\.?|₹|inr)?\s?\d+|myntra|ajio|amazon)\b/i, "shopping_help"],
+  [/\b(trend|trending|trends|inspiration|inspire|ideas?|aesthetic|new look|new style|moodboard|pinterest)\b/i, "new_ideas"],
+  [/\b(wear|outfit|dress (up|for)|style (me|my)|put together|go with|pair with|what goes|occasion|wedding|office|interview|party|date|dinner|trip|today|tomorrow)\b/i, "wardrobe_outfit"],
+];
+
+// A short message that matches nothing is most likely conversational.
+export const guessIntent = (message: string): IntentGuess => {
+  const text = message.trim();
+  const matches = RULES.filter(([re]) => re.test(text)).map(([, mode]) => mode);
+  if (matches.length === 1) return { mode: matches[0], confident: true };
+  if (matches.length > 1) return { mode: matches[0], confident: false };
+  if (text.split(/\s+/).length <= 3) return { mode: "chat", confident: false };
+  return { mode: "wardrobe_outfit", confident: false };
+};
+
+export const isStylistMode = (value: unknown): value is StylistMode =>
+  typeof value === "string" && (STYLIST_MODES as string[]).includes(value);
@@ -0,0 +1,140 @@
+import { ChatMessage, ConversationContext, ConversationMemory, UserFact } from "../types";
+
+// ----------------------------------------
+// Conversation memory
+// ----------------------------------------
+// The stylist sees the last few turns verbatim, a running summary of
+// everything older, and the durable facts the user has stated. Older turns
+// are folded into the summary in batches, so the prompt stays about the same
+// size however long the chat gets.
+
+export const MEMORY_SETTINGS = {
+  recentTurns: 8, // Messages passed verbatim
+  summarizeBatch: 6, // Older messages to collect before summarizing
+  maxSummaryChars: 1200,
+  maxFacts: 30,
+};
+
+export const EMPTY_MEMORY: ConversationMemory = { summary: "", summarizedThrough: 0, facts: [] };
+
+export interface SummaryUpdate {
+  summary: string;
+  facts: string[]; // New facts found in the summarized turns
+}
+
+// The welcome message and failed replies are UI, not conversation.
+const conversational = (messages: ChatMessage[]) =>
+  messages.filter((m) => m.id !== "init" && !m.error && m.content.trim());
+
+export const buildConversationContext = (
+  messages: ChatMessage[],
+  memory: ConversationMemory
+): ConversationContext => ({
+  recent: conversational(messages).slice(-MEMORY_SETTINGS.recentTurns),
+  summary: memory.summary,
+  facts: memory.facts.map((fact) => fact.text),
+});
+
+// Messages that have dropped out of the recent window but aren't summarized yet.
+export const pendingSummary = (messages: ChatMessage[], memory: ConversationMemory) =>
+  conversational(messages)
+    .slice(0, -MEMORY_SETTINGS.recentTurns)
+    .filter((m) => m.timestamp > memory.summarizedThrough);
+
+export const needsSummary = (messages: ChatMessage[], memory: ConversationMemory) =>
+  pendingSummary(messages, memory).length >= MEMORY_SETTINGS.summarizeBatch;
+
+// Keeps the newest part of an overlong summary; older detail matters least.
+export const trimSummary = (summary: string) => {
+  const text = summary.trim();
+  if (text.length <= MEMORY_SETTINGS.maxSummaryChars) return text;
+  const cut = text.slice(-MEMORY_SETTINGS.maxSummaryChars);
+  const sentence = cut.search(/[.!?]\s/);
+  return `…${sentence >= 0 ? cut.slice(sentence + 1) : cut}`.trim();
+};
+
+export const applySummary = (
+  memory: ConversationMemory,
+  summarized: ChatMessage[],
+  update: SummaryUpdate
+): ConversationMemory => ({
+  summary: trimSummary(update.summary),
+  summarizedThrough: Math.max(memory.summarizedThrough, ...summarized.map((m) => m.timestamp)),
+  facts: mergeFacts(memory.facts, update.facts, "chat"),
+});
+
+// ----------------------------------------
+// Facts
+// ----------------------------------------
+// Statements about the user that should hold for every future answer.
+const FACT_PATTERNS: RegExp[] = [
+  /\bi (?:don'?t|do not|never|can'?t|cannot|won'?t|avoid|hate|dislike|love|prefer|always|only|usually|mostly) (?:wear|like|want|buy|dress|go for|choose)\b[^.!?\n]*/gi,
+  /\bi(?:'m| am) (?:a )?(?:size|allergic|vegan|pregnant|petite|tall|short|plus[- ]size)\b[^.!?\n]*/gi,
+  /\bmy (?:office|work|workplace|dress code|budget|size|skin tone|favou?rite colou?r|style)\b(?: is|'s| are)\b[^.!?\n]*/gi,
+  /\bi (?:prefer|love|hate|dislike|avoid)\b[^.!?\n]*/gi,
+];
+
+const normalizeFact = (text: string) => text.toLowerCase().replace(/[^a-z0-9 ]/g, "").replace(/\s+/g, " ").trim();
+
+const toFactText = (match: string) => {
+  const text = match.trim().replace(/[,;:]+$/, "");
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
+
+// Cheap first pass run on every user message; the summarizer may add more.
+export const extractFactsLocally = (text: string): string[] => {
+  const found: string[] = [];
+  // "My office is formal and I hate ties" holds two facts.
+  const clauses = text.split(/,?\s+(?:and|but)\s+(?=(?:i|my)\b)/i);
+  FACT_PATTERNS.forEach((pattern) => {
+    for (const match of clauses.flatMap((clause) => [...clause.matchAll(pattern)])) {
+      const fact = toFactText(match[0]);
+      // The fourth pattern overlaps the first; keep the longer wording.
+      if (fact.split(/\s+/).length >= 3 && !found.some((f) => normalizeFact(f).includes(normalizeFact(fact)))) {
+        found.push(fact);
+      }
+    }
+  });
+  return found;
+};
+
+export const createFact = (text: string, source: UserFact["source"]): UserFact => ({
+  id: crypto.randomUUID(),
+  text: text.trim(),
+  source,
+  createdAt: Date.now(),
+});
+
+export const mergeFacts = (existing: UserFact[], texts: string[], source: UserFact["source"]): UserFact[] => {
+  const seen = new Set(existing.map((fact) => normalizeFact(fact.text)));
+  const added = texts.filter((text) => {
+    const key = normalizeFact(text);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  if (!added.length) return existing;
+  // Oldest chat-picked facts go first; facts typed in by hand are never dropped.
+  const merged = [...existing, ...added.map((text) => createFact(text, source))];
+  while (merged.length > MEMORY_SETTINGS.maxFacts) {
+    const index = merged.findIndex((fact) => fact.source === "chat");
+    if (index < 0) break;
+    merged.splice(index, 1);
+  }
+  return merged;
+};
+
+// ----------------------------------------
+// Prompt text
+// ----------------------------------------
+export const describeConversation = (messages: ChatMessage[]) =>
+  messages.map((m) => `${m.role}: ${m.content}`).join("\n");
+
+export const describeMemory = (context: ConversationContext) => `USER FACTS (always respect these):
+${context.facts.length ? context.facts.map((fact) => `- ${fact}`).join("\n") : "None."}
+
+EARLIER IN THIS CHAT (summary):
+${context.summary || "Nothing yet."}
+
+RECENT CHAT:
+${describeConversation(context.recent) || "None."}`;
@@ -0,0 +1,421 @@
+import {
+  CategoryGroup,
+  ChatMessage,
+  ClothingItem,
+  ConversationContext,
+  Formality,
+  MissingItem,
+  OutfitCardData,
+  OutfitSuggestion,
+  PlanDayRequest,
+  StyleIdea,
+  StylistResponse,
+  WearEvent,
+  WeatherContext,
+} from "../types";
+import { NAMED_COLORS } from "./colorService";
+import {
+  CATEGORIES,
+  CATEGORY_GROUP_LABELS,
+  FORMALITY_LEVELS,
+  STYLE_TAGS,
+  getCategoryGroup,
+  normalizeTaxonomy,
+} from "./taxonomyService";
+import { daysBetween, toDateKey } from "./wearService";
+import { createOutfitId, hashString, rankOutfits } from "./outfitService";
+import { guessIntent } from "./intentService";
+import { readOccasion } from "./candidateService";
+import { scoreOutfit } from "./compatibilityService";
+import { describeWeather, seasonForWeather } from "./weatherService";
+import { AIRequestError, wait } from "./requestService";
+import { SummaryUpdate, extractFactsLocally } from "./memoryService";
+import { SearchResults, StylistProvider, StylistStreamOptions } from "./stylistProvider";
+
+// ----------------------------------------
+// Offline mock stylist
+// ----------------------------------------
+// Deterministic stand-in for Gemini: the same inputs always give the same,
+// schema-valid answer, built only from the wardrobe and a few keyword rules.
+// No network, no key, no randomness.
+
+const pick = <T>(list: T[], seed: number) => list[seed % list.length];
+
+const MOCK_ALTERNATIVES = 3;
+const ALTERNATIVE_NAMES = ["Classic", "Fresh", "Bold"];
+
+type ScoredItem = { item: ClothingItem; score: number; tie: number };
+type Slot = [CategoryGroup, ScoredItem | undefined];
+
+interface MockOutfit {
+  items: ClothingItem[];
+  missing: CategoryGroup[];
+}
+
+// Picks the best-scoring item per slot: formality distance, season fit and
+// recent wear all count, ties are broken by a hash of the request. Items
+// already used by earlier alternatives are penalised so each option differs.
+const buildOutfit = (
+  wardrobe: ClothingItem[],
+  request: string,
+  wearLog: WearEvent[],
+  used: Map<string, number> = new Map(),
+  weather?: WeatherContext
+): MockOutfit => {
+  const { formality, season = seasonForWeather(weather) } = readOccasion(request);
+  const target = FORMALITY_LEVELS.indexOf(formality);
+  const today = toDateKey();
+  const recentlyWorn = new Set(
+    wearLog.filter((e) => daysBetween(e.date, today) >= 0 && daysBetween(e.date, today) <= 3).flatMap((e) => e.itemIds)
+  );
+
+  const scoreOf = (item: ClothingItem) => {
+    let score = 10 - 3 * Math.abs(FORMALITY_LEVELS.indexOf(item.formality || "casual") - target);
+    if (season && (item.season.includes(season) || item.season.includes("All-Season"))) score += 2;
+    if (recentlyWorn.has(item.id)) score -= 4;
+    score -= 3 * (used.get(item.id) || 0);
+    return score;
+  };
+
+  const best = (group: CategoryGroup): ScoredItem | undefined =>
+    wardrobe
+      .filter((item) => getCategoryGroup(item.category) === group)
+      .map((item) => ({ item, score: scoreOf(item), tie: hashString(request + item.id) }))
+      .sort((a, b) => b.score - a.score || a.tie - b.tie)[0];
+
+  const top = best("top");
+  const bottom = best("bottom");
+  const onePiece = best("one-piece");
+  const pairScore = top && bottom ? (top.score + bottom.score) / 2 : -Infinity;
+  const base: Slot[] =
+    onePiece && onePiece.score > pairScore ? [["one-piece", onePiece]] : [["top", top], ["bottom", bottom]];
+
+  const wantsLayer =
+    season === "Winter" ||
+    season === "Autumn" ||
+    formality === "business" ||
+    formality === "formal" ||
+    (!!weather && weather.precipitation !== "none");
+  const slots: Slot[] = [
+    ...base,
+    ["footwear", best("footwear")],
+    ...(wantsLayer ? [["outerwear", best("outerwear")] as Slot] : []),
+  ];
+
+  const chosen = slots.filter(([, entry]) => entry).map(([, entry]) => entry!);
+  const missing = slots.filter(([, entry]) => !entry).map(([group]) => group);
+  return { items: chosen.map((e) => e.item), missing };
+};
+
+const describeItems = (items: ClothingItem[]) =>
+  items.map((item) => `${item.color} ${item.category}`.toLowerCase()).join(", ");
+
+const storeLinks = (query: string) => {
+  const q = encodeURIComponent(query);
+  return [
+    { storeName: "Myntra", url: `https://www.myntra.com/${q.replace(/%20/g, "-")}` },
+    { storeName: "Ajio", url: `https://www.ajio.com/search/?text=${q}` },
+    { storeName: "Amazon", url: `https://www.amazon.in/s?k=${q}` },
+  ];
+};
+
+const toMissingItems = (missing: CategoryGroup[], formality: Formality, seed: string): MissingItem[] =>
+  missing.map((group) => {
+    const name = `${formality.replace("-", " ")} ${CATEGORY_GROUP_LABELS[group].toLowerCase()}`;
+    return {
+      id: `missing-${group}-${hashString(seed + group).toString(36)}`,
+      name,
+      pinterestQuery: name,
+      shoppingOptions: storeLinks(name).map((link) => ({ ...link, price: "N/A", type: "online" as const })),
+    };
+  });
+
+const analyzeClothingImage = async (base64Image: string): Promise<Partial<ClothingItem>> => {
+  const seed = hashString(base64Image);
+  const category = pick(CATEGORIES, seed);
+  const color = pick(NAMED_COLORS, seed >>> 8).name;
+  const style = pick(STYLE_TAGS, seed >>> 16);
+  return normalizeTaxonomy({
+    category,
+    color,
+    season: ["All-Season"],
+    style: [style],
+    description: `${color} ${category.toLowerCase()} (offline analysis).`,
+  });
+};
+
+const searchForItems = async (query: string): Promise<SearchResults> => {
+  const links = storeLinks(query);
+  return {
+    text: `Offline mode: live search is unavailable. Try these store searches for **${query}**:\n\n${links
+      .map((link) => `- ${link.storeName}`)
+      .join("\n")}`,
+    groundingChunks: links.map((link) => ({ web: { title: `${link.storeName}: ${query}`, uri: link.url } })),
+  };
+};
+
+const shoppingLink = (query: string, seed: string): MissingItem => ({
+  id: `shop-${hashString(seed + query).toString(36)}`,
+  name: query,
+  pinterestQuery: query,
+  shoppingOptions: storeLinks(query).map((link) => ({ ...link, price: "N/A", type: "online" as const })),
+});
+
+const pinterestSearch = (query: string) => ({
+  title: query,
+  description: "",
+  previewImageUrl: "",
+  pinterestUrl: `https://www.pinterest.com/search/pins/?q=${encodeURIComponent(query)}`,
+});
+
+const suggestOutfits = (
+  message: string,
+  wardrobe: ClothingItem[],
+  wearLog: WearEvent[],
+  weather?: WeatherContext
+): StylistResponse => {
+  const occasion = readOccasion(message);
+  occasion.season ??= seasonForWeather(weather);
+  const { formality } = occasion;
+  const setting = formality === "casual" ? "everyday" : formality.replace("-", " ");
+
+  // Up to three alternatives, each steered away from the items before it
+  const used = new Map<string, number>();
+  const cards: OutfitCardData[] = [];
+  for (let i = 0; i < MOCK_ALTERNATIVES; i++) {
+    const outfit = buildOutfit(wardrobe, message, wearLog, used, weather);
+    if (!outfit.items.length) break;
+    outfit.items.forEach((item) => used.set(item.id, (used.get(item.id) || 0) + 1));
+    const ids = outfit.items.map((item) => item.id);
+    const { score, breakdown } = scoreOutfit(outfit.items, occasion);
+    cards.push({
+      id: createOutfitId(ids),
+      title: "",
+      description: `Your ${describeItems(outfit.items)}.`,
+      matchScore: score,
+      scoreBreakdown: breakdown,
+      selectedItemIds: ids,
+      missingItems: toMissingItems(outfit.missing, formality, message),
+      pinterestLooks: [],
+      reasoning: `Picked for a ${setting} setting${weather ? ` and ${describeWeather(weather)}` : ""}, skipping anything worn in the last few days where possible.`,
+    });
+  }
+  // Named after ranking, so "Classic" is always the top pick
+  const outfits = rankOutfits(cards).map((card, i) => ({ ...card, title: `${ALTERNATIVE_NAMES[i]} ${setting} look` }));
+
+  const best = outfits[0];
+  const summary = best
+    ? `Here ${outfits.length === 1 ? "is one option" : `are ${outfits.length} options`}; my top pick is the ${best.title.toLowerCase()}.`
+    : "I couldn't find a full look in your wardrobe for that.";
+  const gaps = best?.missingItems.length
+    ? ` You're missing ${best.missingItems.map((m) => m.name).join(" and ")} for it.`
+    : "";
+
+  return {
+    mode: "wardrobe_outfit",
+    message: summary + gaps,
+    outfits,
+    suggestions: ["Make it more formal", "Something for the weekend", "What's missing from my wardrobe?"],
+  };
+};
+
+// One board per style the wardrobe already leans towards.
+const suggestIdeas = (wardrobe: ClothingItem[]): StylistResponse => {
+  const byStyle = new Map<string, ClothingItem[]>();
+  wardrobe.forEach((item) => item.style.forEach((tag) => byStyle.set(tag, [...(byStyle.get(tag) || []), item])));
+  const ideas: StyleIdea[] = [...byStyle.entries()]
+    .sort((a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]))
+    .slice(0, 3)
+    .map(([style, items]) => ({
+      id: `idea-${hashString(style).toString(36)}`,
+      title: `Lean into ${style}`,
+      description: `You already own ${items.length} ${style.toLowerCase()} piece${items.length === 1 ? "" : "s"}; build a few looks around them.`,
+      keyPieces: [...new Set(items.map((item) => item.category))].slice(0, 4),
+      wardrobeItemIds: items.slice(0, 6).map((item) => item.id),
+      pinterestLooks: [pinterestSearch(`${style} outfit ideas`)],
+    }));
+
+  return {
+    mode: "new_ideas",
+    message: ideas.length
+      ? "Offline mode: here are directions based on the styles you already own."
+      : "Tag a few items with styles and I'll suggest directions to explore.",
+    outfits: [],
+    ideas,
+    suggestions: ["Put together an outfit", "What should I buy next?"],
+  };
+};
+
+// Shops for what was asked, plus whole categories the wardrobe lacks.
+const suggestShopping = (message: string, wardrobe: ClothingItem[]): StylistResponse => {
+  const owned = new Set(wardrobe.map((item) => getCategoryGroup(item.category)));
+  const gaps = (["top", "bottom", "footwear", "outerwear"] as CategoryGroup[])
+    .filter((group) => !owned.has(group))
+    .map((group) => CATEGORY_GROUP_LABELS[group].toLowerCase());
+  const query = message.replace(/\b(i want to|i need to|where can i|help me|please|buy|shop for|shop|get|find)\b/gi, " ").replace(/\s+/g, " ").trim();
+  const shoppingItems = [...(query ? [query] : []), ...gaps].map((name) => shoppingLink(name, message));
+
+  return {
+    mode: "shopping_help",
+    message: gaps.length
+      ? `Offline mode: store searches below. Your wardrobe also has no ${gaps.join(" or ")} yet.`
+      : "Offline mode: live prices are unavailable, but these store searches should help.",
+    outfits: [],
+    shoppingItems,
+    suggestions: ["Put together an outfit", "Show me style ideas"],
+  };
+};
+
+// "Doesn't wear heels" takes heels out of the running. Only negative facts
+// that name a category or colour are understood.
+const respectFacts = (wardrobe: ClothingItem[], facts: string[]) => {
+  const avoided = facts
+    .map((fact) => fact.toLowerCase().match(/\b(?:don'?t|doesn'?t|do not|does not|never|avoids?|hates?|dislikes?)\b(.*)/)?.[1] || "")
+    .filter(Boolean);
+  if (!avoided.length) return wardrobe;
+  const mentions = (text: string, word: string) =>
+    new RegExp(`\\b${word.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}s?\\b`).test(text);
+  return wardrobe.filter(
+    (item) => !avoided.some((text) => mentions(text, item.category) || (item.color && mentions(text, item.color)))
+  );
+};
+
+const generateStylistResponse = async (
+  message: string,
+  allItems: ClothingItem[],
+  context: ConversationContext,
+  wearLog: WearEvent[] = []
+): Promise<StylistResponse> => {
+  const { mode } = guessIntent(message);
+  const wardrobe = respectFacts(allItems, context.facts);
+
+  if (mode === "chat") {
+    return {
+      mode: "chat",
+      message: "Happy to help! Tell me where you're headed and I'll pull something together from your wardrobe.",
+      outfits: [],
+      suggestions: ["What should I wear today?", "Show me style ideas"],
+    };
+  }
+  if (mode === "shopping_help") return suggestShopping(message, wardrobe);
+  if (!wardrobe.length) {
+    return {
+      mode: "chat",
+      message: "Your wardrobe is empty. Upload a few pieces and I'll put outfits together from them.",
+      outfits: [],
+      suggestions: ["What should I buy first?"],
+    };
+  }
+  if (mode === "new_ideas") return suggestIdeas(wardrobe);
+  return suggestOutfits(message, wardrobe, wearLog, context.weather);
+};
+
+const STREAM_STEP_MS = 40;
+
+// Replays the finished answer word by word, then section by section, so the
+// streaming UI can be exercised offline.
+const streamStylistResponse = async (
+  message: string,
+  wardrobe: ClothingItem[],
+  context: ConversationContext,
+  wearLog: WearEvent[] = [],
+  { onPartial, signal }: StylistStreamOptions
+): Promise<StylistResponse> => {
+  // Stop rejects the same way the live backend does
+  const step = () =>
+    wait(STREAM_STEP_MS, signal).catch((reason) => {
+      throw new AIRequestError("aborted", reason);
+    });
+
+  const final = await generateStylistResponse(message, wardrobe, context, wearLog);
+  const words = final.message.split(" ");
+  for (let i = 1; i <= words.length; i++) {
+    await step();
+    onPartial({
+      ...final,
+      message: words.slice(0, i).join(" "),
+      outfits: [],
+      ideas: undefined,
+      shoppingItems: undefined,
+      suggestions: [],
+    });
+  }
+  await step();
+  onPartial({ ...final, suggestions: [] });
+  await step();
+  onPartial(final);
+  return final;
+};
+
+const generateOutfit = async (
+  wardrobe: ClothingItem[],
+  occasion: string,
+  notes: string,
+  wearLog: WearEvent[] = [],
+  _signal?: AbortSignal,
+  weather?: WeatherContext
+): Promise<OutfitSuggestion> => {
+  if (!wardrobe.length) throw new Error("Wardrobe empty");
+
+  const request = `${occasion} ${notes}`;
+  const { formality } = readOccasion(request);
+  const outfit = buildOutfit(wardrobe, request, wearLog, undefined, weather);
+  return {
+    outfitName: `${occasion || "Everyday"} outfit`,
+    description: outfit.items.length ? `Your ${describeItems(outfit.items)}.` : "Nothing in the wardrobe fits this yet.",
+    reasoning: `Closest match to a ${formality.replace("-", " ")} dress code from your wardrobe${weather ? `, dressed for ${describeWeather(weather)}` : ""}.`,
+    selectedItemIds: outfit.items.map((item) => item.id),
+    missingItems: outfit.missing.map((group) => CATEGORY_GROUP_LABELS[group]),
+  };
+};
+
+// Each day steers away from what earlier days used, the day before most of all.
+const planWeek = async (
+  wardrobe: ClothingItem[],
+  days: PlanDayRequest[],
+  wearLog: WearEvent[] = []
+): Promise<OutfitSuggestion[]> => {
+  if (!wardrobe.length) throw new Error("Wardrobe empty");
+
+  const used = new Map<string, number>();
+  let yesterday: string[] = [];
+  return days.map((day) => {
+    const penalties = new Map(used);
+    yesterday.forEach((id) => penalties.set(id, (penalties.get(id) || 0) + 3));
+    const outfit = buildOutfit(wardrobe, `${day.occasion} ${day.date}`, wearLog, penalties);
+    yesterday = outfit.items.map((item) => item.id);
+    yesterday.forEach((id) => used.set(id, (used.get(id) || 0) + 1));
+    return {
+      outfitName: `${day.occasion || "Everyday"} outfit`,
+      description: outfit.items.length ? `Your ${describeItems(outfit.items)}.` : "Nothing in the wardrobe fits this yet.",
+      reasoning: `Picked for ${day.occasion || "the day"}, without repeating yesterday's pieces where possible.`,
+      selectedItemIds: yesterday,
+      missingItems: outfit.missing.map((group) => CATEGORY_GROUP_LABELS[group]),
+    };
+  });
+};
+
+// One line per request the user made; facts come from the local patterns.
+const summarizeConversation = async (previousSummary: string, messages: ChatMessage[]): Promise<SummaryUpdate> => {
+  const asked = messages
+    .filter((m) => m.role === "user")
+    .map((m) => {
+      const text = m.content.trim().replace(/\s+/g, " ");
+      return `User asked: "${text.length > 80 ? `${text.slice(0, 77)}...` : text}".`;
+    });
+  return {
+    summary: [previousSummary, ...asked].filter(Boolean).join(" "),
+    facts: messages.filter((m) => m.role === "user").flatMap((m) => extractFactsLocally(m.content)),
+  };
+};
+
+export const mockProvider: StylistProvider = {
+  name: "mock",
+  analyzeClothingImage,
+  searchForItems,
+  generateStylistResponse,
+  streamStylistResponse,
+  summarizeConversation,
+  generateOutfit,
+  planWeek,
+};
@@ -0,0 +1,67 @@
+import { OutfitCardData, OutfitSuggestion } from "../types";
+
+// ----------------------------------------
+// Outfit identity and ranking
+// ----------------------------------------
+// An outfit's id is derived from the items in it, so the same combination
+// keeps the same id across replies (and favorites recognise it), while
+// alternatives in one reply never collide.
+
+// FNV-1a; small and stable across runs.
+export const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Item order doesn't matter; outfits without wardrobe items (pure shopping
+// ideas) are identified by their title instead.
+export const createOutfitId = (selectedItemIds: string[], title = "") => {
+  const key = selectedItemIds.length
+    ? [...new Set(selectedItemIds)].sort().join("|")
+    : `title:${title.trim().toLowerCase()}`;
+  return `outfit-${hashString(key).toString(36)}`;
+};
+
+export const clampScore = (value: unknown) => {
+  const score = typeof value === "number" ? value : parseFloat(String(value));
+  if (!Number.isFinite(score)) return 0;
+  return Math.round(Math.min(100, Math.max(0, score)));
+};
+
+// Best first; when two alternatives turn out to be the same combination the
+// higher-scored one is kept.
+export const rankOutfits = (outfits: OutfitCardData[]) => {
+  const seen = new Set<string>();
+  return [...outfits]
+    .sort((a, b) => b.matchScore - a.matchScore)
+    .filter((outfit) => {
+      if (seen.has(outfit.id)) return false;
+      seen.add(outfit.id);
+      return true;
+    });
+};
+
+// The occasion planner's single suggestion, in the shape favorites keep.
+// The score is left for the compatibility scorer to fill in.
+export const suggestionToOutfitCard = (suggestion: OutfitSuggestion): OutfitCardData => {
+  const id = createOutfitId(suggestion.selectedItemIds, suggestion.outfitName);
+  return {
+    id,
+    title: suggestion.outfitName,
+    description: suggestion.description,
+    matchScore: 0,
+    selectedItemIds: suggestion.selectedItemIds,
+    missingItems: suggestion.missingItems.map((name, i) => ({
+      id: `${id}-missing-${i}`,
+      name,
+      pinterestQuery: name,
+      shoppingOptions: [],
+    })),
+    pinterestLooks: [],
+    reasoning: suggestion.reasoning,
+  };
+};
@@ -0,0 +1,142 @@
+// ----------------------------------------
+// Partial JSON parsing
+// ----------------------------------------
+// Streams arrive as a growing prefix of one JSON document. This parser reads
+// such a prefix without throwing: strings cut mid-way are returned as far as
+// they go, unfinished containers are closed, and half-written keys, numbers
+// or literals are dropped. It also reports which top-level keys are already
+// complete, so callers can render a section only once it can't change.
+
+export interface PartialJson {
+  value: any;
+  complete: boolean; // The whole document has been closed
+  completeKeys: Set<string>; // Top-level keys whose values are final
+}
+
+const INCOMPLETE = Symbol("incomplete");
+
+type Parsed = { value: any; complete: boolean };
+
+const ESCAPES: Record<string, string> = { '"': '"', "\\": "\\", "/": "/", b: "\b", f: "\f", n: "\n", r: "\r", t: "\t" };
+
+export const parsePartialJson = (input: string): PartialJson => {
+  // Models sometimes wrap JSON in a code fence or lead with prose.
+  const start = input.indexOf("{");
+  const text = start >= 0 ? input.slice(start) : "";
+  const completeKeys = new Set<string>();
+  let pos = 0;
+
+  const atEnd = () => pos >= text.length;
+  const skipWhitespace = () => {
+    while (!atEnd() && /\s/.test(text[pos])) pos++;
+  };
+
+  const parseString = (): Parsed => {
+    pos++; // opening quote
+    let value = "";
+    while (!atEnd()) {
+      const char = text[pos];
+      if (char === '"') {
+        pos++;
+        return { value, complete: true };
+      }
+      if (char === "\\") {
+        const next = text[pos + 1];
+        if (next === undefined) break;
+        if (next === "u") {
+          const hex = text.slice(pos + 2, pos + 6);
+          if (hex.length < 4) break;
+          value += String.fromCharCode(parseInt(hex, 16));
+          pos += 6;
+        } else {
+          value += ESCAPES[next] ?? next;
+          pos += 2;
+        }
+        continue;
+      }
+      value += char;
+      pos++;
+    }
+    pos = text.length;
+    return { value, complete: false };
+  };
+
+  // Numbers and literals are only trusted once something follows them.
+  const parseScalar = (): Parsed | typeof INCOMPLETE => {
+    const match = /^(-?\d+(\.\d+)?([eE][+-]?\d+)?|true|false|null)/.exec(text.slice(pos));
+    if (!match) {
+      pos = text.length;
+      return INCOMPLETE;
+    }
+    pos += match[0].length;
+    if (atEnd()) return INCOMPLETE;
+    return { value: JSON.parse(match[0]), complete: true };
+  };
+
+  const parseArray = (depth: number): Parsed => {
+    pos++; // [
+    const value: any[] = [];
+    for (;;) {
+      skipWhitespace();
+      if (atEnd()) return { value, complete: false };
+      if (text[pos] === "]") {
+        pos++;
+        return { value, complete: true };
+      }
+      if (text[pos] === ",") {
+        pos++;
+        continue;
+      }
+      const item = parseValue(depth + 1);
+      if (item === INCOMPLETE) return { value, complete: false };
+      value.push(item.value);
+      if (!item.complete) return { value, complete: false };
+    }
+  };
+
+  const parseObject = (depth: number): Parsed => {
+    pos++; // {
+    const value: Record<string, any> = {};
+    for (;;) {
+      skipWhitespace();
+      if (atEnd()) return { value, complete: false };
+      const char = text[pos];
+      if (char === "}") {
+        pos++;
+        return { value, complete: true };
+      }
+      if (char === ",") {
+        pos++;
+        continue;
+      }
+      if (char !== '"') {
+        pos = text.length;
+        return { value, complete: false };
+      }
+      const key = parseString();
+      if (!key.complete) return { value, complete: false };
+      skipWhitespace();
+      if (text[pos] !== ":") return { value, complete: false };
+      pos++;
+      const item = parseValue(depth + 1);
+      if (item === INCOMPLETE) return { value, complete: false };
+      value[key.value] = item.value;
+      if (!item.complete) return { value, complete: false };
+      if (depth === 0) completeKeys.add(key.value);
+    }
+  };
+
+  function parseValue(depth: number): Parsed | typeof INCOMPLETE {
+    skipWhitespace();
+    if (atEnd()) return INCOMPLETE;
+    const char = text[pos];
+    if (char === "{") return parseObject(depth);
+    if (char === "[") return parseArray(depth);
+    if (char === '"') return parseString();
+    return parseScalar();
+  }
+
+  const parsed = parseValue(0);
+  if (parsed === INCOMPLETE) return { value: {}, complete: false, completeKeys };
+  return { value: parsed.value, complete: parsed.complete, completeKeys };
+};
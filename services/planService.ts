@@ -0,0 +1,94 @@
+import { OutfitCardData, PlanConflict, PlannedOutfit, WearEvent } from "../types";
+import { addDays, createWearEvent, daysBetween, toDateKey } from "./wearService";
+
+// ----------------------------------------
+// Outfit calendar
+// ----------------------------------------
+// Outfits are planned onto calendar days. Plans are checked for the same
+// piece on back-to-back days or booked too often, and once a planned day has
+// passed its outfit is logged as worn, so wear history stays current without
+// the user ticking anything off.
+
+export const PLAN_SETTINGS = {
+  days: 7, // Length of the planner view
+  maxUsesPerWeek: 3, // More than this in any 7 days is overbooked
+};
+
+export const createPlannedOutfit = (outfit: OutfitCardData, date: string, occasion = ""): PlannedOutfit => ({
+  id: crypto.randomUUID(),
+  date,
+  occasion: occasion.trim(),
+  outfit,
+});
+
+// The week shown in the planner, starting today unless told otherwise.
+export const weekDates = (start = toDateKey(), days = PLAN_SETTINGS.days) =>
+  Array.from({ length: days }, (_, i) => addDays(start, i));
+
+// ----------------------------------------
+// Conflicts
+// ----------------------------------------
+// Past wear counts too: a shirt worn yesterday shouldn't be planned for today.
+export const findPlanConflicts = (
+  plans: PlannedOutfit[],
+  wearLog: WearEvent[] = [],
+  today = toDateKey()
+): PlanConflict[] => {
+  const planned = new Map<string, string[]>(); // item -> days, one entry per outfit
+  plans.forEach((plan) =>
+    new Set(plan.outfit.selectedItemIds).forEach((id) => planned.set(id, [...(planned.get(id) || []), plan.date]))
+  );
+  const worn = new Map<string, Set<string>>();
+  wearLog
+    .filter((e) => daysBetween(e.date, today) >= 0 && daysBetween(e.date, today) <= PLAN_SETTINGS.days)
+    .forEach((e) => e.itemIds.forEach((id) => worn.set(id, (worn.get(id) || new Set()).add(e.date))));
+
+  const conflicts: PlanConflict[] = [];
+  planned.forEach((bookings, itemId) => {
+    const plannedDays = new Set(bookings);
+    const days = [...new Set([...bookings, ...(worn.get(itemId) || [])])].sort();
+
+    // Two outfits on one day can't share a piece
+    const doubled = [...plannedDays].filter((day) => bookings.filter((d) => d === day).length > 1);
+    if (doubled.length) conflicts.push({ kind: "overbooked", itemId, dates: doubled.sort() });
+
+    const windows: string[][] = [];
+    days.forEach((day, i) => {
+      const next = days[i + 1];
+      if (next && daysBetween(day, next) === 1 && (plannedDays.has(day) || plannedDays.has(next))) {
+        conflicts.push({ kind: "consecutive", itemId, dates: [day, next] });
+      }
+      const week = days.filter((d) => daysBetween(day, d) >= 0 && daysBetween(day, d) < 7);
+      if (week.length > PLAN_SETTINGS.maxUsesPerWeek && week.some((d) => plannedDays.has(d))) {
+        // Overlapping windows describe the same problem once
+        const last = windows[windows.length - 1];
+        if (last?.some((d) => week.includes(d))) windows[windows.length - 1] = [...new Set([...last, ...week])].sort();
+        else windows.push(week);
+      }
+    });
+    windows.forEach((dates) => conflicts.push({ kind: "overbooked", itemId, dates }));
+  });
+  return conflicts;
+};
+
+export const conflictsOn = (conflicts: PlanConflict[], plan: PlannedOutfit) =>
+  conflicts.filter((c) => c.dates.includes(plan.date) && plan.outfit.selectedItemIds.includes(c.itemId));
+
+// ----------------------------------------
+// Wear history
+// ----------------------------------------
+// Plans for days before today that haven't been logged yet become wear
+// events. Items since removed from the wardrobe are left out.
+export const settlePastPlans = (
+  plans: PlannedOutfit[],
+  wardrobeIds: Set<string>,
+  today = toDateKey()
+): { plans: PlannedOutfit[]; events: WearEvent[] } => {
+  const due = plans.filter((plan) => !plan.wearLogged && plan.date < today);
+  if (!due.length) return { plans, events: [] };
+  const events = due
+    .map((plan) => createWearEvent(plan.outfit.selectedItemIds.filter((id) => wardrobeIds.has(id)), plan.outfit.id, plan.date))
+    .filter((event) => event.itemIds.length);
+  const settled = new Set(due.map((plan) => plan.id));
+  return { plans: plans.map((plan) => (settled.has(plan.id) ? { ...plan, wearLogged: true } : plan)), events };
+};
@@ -0,0 +1,151 @@
+import { AIErrorKind } from "../types";
+
+// ----------------------------------------
+// AI request layer
+// ----------------------------------------
+// Every model call runs through `runRequest`: it waits for one of a few
+// global slots, retries transient failures with exponential backoff, honours
+// an AbortSignal throughout, and turns whatever went wrong into an
+// AIRequestError the UI can explain and offer to retry.
+
+export const REQUEST_SETTINGS = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 16000,
+  maxConcurrent: 2,
+};
+
+const MESSAGES: Record<AIErrorKind, string> = {
+  quota: "The stylist has hit its usage limit. Wait a minute and try again.",
+  safety: "That request was blocked by the AI safety filters. Try rephrasing it.",
+  network: "Couldn't reach the stylist. Check your connection and try again.",
+  parse: "The stylist's answer came back garbled. Try again.",
+  aborted: "Stopped.",
+  unknown: "Something went wrong with the stylist. Please try again.",
+};
+
+// Worth trying again automatically; the rest need the user to change something.
+const TRANSIENT: AIErrorKind[] = ["quota", "network", "parse"];
+
+export class AIRequestError extends Error {
+  readonly kind: AIErrorKind;
+  readonly retryable: boolean;
+
+  constructor(kind: AIErrorKind, cause?: unknown, { retryable = TRANSIENT.includes(kind) } = {}) {
+    super(MESSAGES[kind], { cause });
+    this.name = "AIRequestError";
+    this.kind = kind;
+    this.retryable = retryable;
+  }
+}
+
+const statusOf = (error: any): number | undefined =>
+  typeof error?.status === "number" ? error.status : typeof error?.code === "number" ? error.code : undefined;
+
+export const toAIRequestError = (error: unknown, signal?: AbortSignal): AIRequestError => {
+  if (error instanceof AIRequestError) return error;
+  if (signal?.aborted || (error as any)?.name === "AbortError") return new AIRequestError("aborted", error);
+
+  const status = statusOf(error);
+  const text = String((error as any)?.message || "");
+  if (status === 429 || /resource[_ ]exhausted|quota|rate limit/i.test(text)) return new AIRequestError("quota", error);
+  // fetch() fails with a TypeError; other TypeErrors are bugs, not worth a retry
+  const fetchFailed = error instanceof TypeError && /fetch|network/i.test(text);
+  if ((status && (status >= 500 || status === 408)) || fetchFailed) return new AIRequestError("network", error);
+  if (error instanceof SyntaxError) return new AIRequestError("parse", error);
+  return new AIRequestError("unknown", error);
+};
+
+// Plain-language message for any thrown value.
+export const describeAIError = (error: unknown) => toAIRequestError(error).message;
+
+// ----------------------------------------
+// Helpers
+// ----------------------------------------
+// Resolves after `ms`, or rejects with the signal's reason if aborted first.
+export const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+// Quota errors back off harder; jitter keeps parallel callers from retrying in step.
+const backoff = (attempt: number, kind: AIErrorKind) => {
+  const base = REQUEST_SETTINGS.baseDelayMs * 2 ** (attempt - 1) * (kind === "quota" ? 4 : 1);
+  return Math.round(Math.min(REQUEST_SETTINGS.maxDelayMs, base) * (0.5 + Math.random() / 2));
+};
+
+// ----------------------------------------
+// Concurrency limit
+// ----------------------------------------
+let active = 0;
+const queue: (() => void)[] = [];
+
+const acquire = (signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new AIRequestError("aborted", signal.reason));
+    if (active < REQUEST_SETTINGS.maxConcurrent) {
+      active++;
+      return resolve();
+    }
+    const grant = () => {
+      signal?.removeEventListener("abort", onAbort);
+      active++;
+      resolve();
+    };
+    const onAbort = () => {
+      queue.splice(queue.indexOf(grant), 1);
+      reject(new AIRequestError("aborted", signal!.reason));
+    };
+    queue.push(grant);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+const release = () => {
+  active--;
+  queue.shift()?.();
+};
+
+// ----------------------------------------
+// Entry point
+// ----------------------------------------
+export interface RequestOptions {
+  signal?: AbortSignal;
+  label?: string; // For logs
+  maxAttempts?: number;
+}
+
+// The slot is held through backoff, so a burst of quota errors slows
+// everything down instead of piling more requests on.
+export const runRequest = async <T>(
+  task: () => Promise<T>,
+  { signal, label = "AI request", maxAttempts = REQUEST_SETTINGS.maxAttempts }: RequestOptions = {}
+): Promise<T> => {
+  await acquire(signal);
+  try {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        signal?.throwIfAborted();
+        return await task();
+      } catch (raw) {
+        const error = toAIRequestError(raw, signal);
+        if (!error.retryable || attempt >= maxAttempts) throw error;
+        const delay = backoff(attempt, error.kind);
+        console.warn(`[request] ${label} failed (${error.kind}); attempt ${attempt + 1} in ${delay}ms`, raw);
+        await wait(delay, signal).catch((reason) => {
+          throw new AIRequestError("aborted", reason);
+        });
+      }
+    }
+  } finally {
+    release();
+  }
+};
@@ -0,0 +1,385 @@
+import { CacheEntry, ChatMessage, ClothingItem, ConversationMemory, IngestJob, OutfitCardData, PlannedOutfit, WearEvent, WeatherContext } from "../types";
+import { dataUrlToBytes } from "./imageService";
+import { normalizeTaxonomy } from "./taxonomyService";
+
+// ----------------------------------------
+// IndexedDB persistence
+// ----------------------------------------
+// Item metadata, favorites and the conversation are stored as records;
+// wardrobe photos live in their own store as Blobs so a large wardrobe no
+// longer has to fit into a single localStorage string.
+
+const DB_NAME = "styleMate";
+const DB_VERSION = 5;
+
+const STORES = {
+  items: "items",
+  images: "images",
+  favorites: "favorites",
+  conversations: "conversations",
+  wearEvents: "wearEvents",
+  responseCache: "responseCache",
+  ingestQueue: "ingestQueue",
+  plannedOutfits: "plannedOutfits",
+  meta: "meta",
+} as const;
+
+const LEGACY_KEYS = {
+  wardrobe: "styleMate_wardrobe_v1",
+  favorites: "styleMate_favorites_v1",
+  conversations: "styleMate_conversations_v1",
+};
+
+const MIGRATION_FLAG = "legacyLocalStorageMigrated";
+const MEMORY_KEY = "conversationMemory";
+const WEATHER_KEY = "manualWeather";
+
+export class StorageQuotaError extends Error {
+  constructor(
+    message = "Your browser storage is full, so recent changes were not saved. Remove some items and try again."
+  ) {
+    super(message);
+    this.name = "StorageQuotaError";
+  }
+}
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException &&
+  (error.name === "QuotaExceededError" || error.code === 22);
+
+const toStorageError = (error: unknown): Error => {
+  if (isQuotaError(error)) return new StorageQuotaError();
+  return error instanceof Error ? error : new Error(String(error ?? "Storage failed"));
+};
+
+// ----------------------------------------
+// Low-level helpers
+// ----------------------------------------
+const promisifyRequest = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(toStorageError(request.error));
+  });
+
+const completeTransaction = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(toStorageError(tx.error));
+    tx.onabort = () => reject(toStorageError(tx.error));
+  });
+
+// Kept synchronous so it can run inside an open transaction without
+// letting it auto-commit. Non-base64 values (plain URLs) are stored as-is.
+const dataUrlToBlob = (dataUrl: string): Blob | string => {
+  const decoded = dataUrlToBytes(dataUrl);
+  return decoded ? new Blob([decoded.bytes], { type: decoded.mimeType }) : dataUrl;
+};
+
+export const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+
+type Positioned<T> = T & { position: number };
+
+const stripPosition = <T>({ position, ...rest }: Positioned<T>) => rest as unknown as T;
+
+const readAll = async <T>(db: IDBDatabase, storeName: string): Promise<T[]> => {
+  const tx = db.transaction(storeName, "readonly");
+  const records = await promisifyRequest<Positioned<T>[]>(tx.objectStore(storeName).getAll());
+  return records.sort((a, b) => a.position - b.position).map(stripPosition);
+};
+
+const putAll = <T>(store: IDBObjectStore, records: T[]) => {
+  records.forEach((record, position) => store.put({ ...record, position }));
+};
+
+const replaceAll = async <T>(storeName: string, records: T[]) => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, "readwrite");
+  const store = tx.objectStore(storeName);
+  store.clear();
+  putAll(store, records);
+  await completeTransaction(tx);
+};
+
+// ----------------------------------------
+// Legacy data
+// ----------------------------------------
+// Also maps legacy free-text category/season/style values onto the taxonomy.
+export const normalizeClothingItem = (item: any): ClothingItem =>
+  normalizeTaxonomy({
+    ...item,
+    id: item.id || crypto.randomUUID(),
+    category: item.category || "Unknown",
+    color: item.color || "Unknown",
+    image: item.image || "",
+    season: Array.isArray(item.season) ? item.season : [],
+    style: Array.isArray(item.style) ? item.style : [],
+    description: item.description || "",
+  });
+
+const readLegacyArray = (key: string): any[] => {
+  try {
+    const saved = localStorage.getItem(key);
+    if (!saved) return [];
+    const parsed = JSON.parse(saved);
+    return Array.isArray(parsed) ? parsed.filter(Boolean) : [];
+  } catch {
+    return [];
+  }
+};
+
+const migrateLegacyStorage = async (db: IDBDatabase) => {
+  const checkTx = db.transaction(STORES.meta, "readonly");
+  const migrated = await promisifyRequest(checkTx.objectStore(STORES.meta).get(MIGRATION_FLAG));
+  if (migrated) return;
+
+  const items = readLegacyArray(LEGACY_KEYS.wardrobe).map(normalizeClothingItem);
+  // Favorites and messages are keyed by id, so anything without one is dropped.
+  const favorites = readLegacyArray(LEGACY_KEYS.favorites).filter((f) => f.id);
+  const conversations = readLegacyArray(LEGACY_KEYS.conversations).filter((m) => m.id);
+
+  const tx = db.transaction(Object.values(STORES), "readwrite");
+  const imageStore = tx.objectStore(STORES.images);
+  putAll(
+    tx.objectStore(STORES.items),
+    items.map(({ image, ...meta }) => {
+      if (image) imageStore.put(dataUrlToBlob(image), meta.id);
+      return meta;
+    })
+  );
+  putAll(tx.objectStore(STORES.favorites), favorites);
+  putAll(tx.objectStore(STORES.conversations), conversations);
+  tx.objectStore(STORES.meta).put(true, MIGRATION_FLAG);
+  await completeTransaction(tx);
+
+  // Only drop the old copies once IndexedDB has them.
+  Object.values(LEGACY_KEYS).forEach((key) => localStorage.removeItem(key));
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const keyed = [
+          STORES.items,
+          STORES.favorites,
+          STORES.conversations,
+          STORES.wearEvents,
+          STORES.responseCache,
+          STORES.ingestQueue,
+          STORES.plannedOutfits,
+        ];
+        keyed.forEach((name) => {
+          if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: "id" });
+        });
+        [STORES.images, STORES.meta].forEach((name) => {
+          if (!db.objectStoreNames.contains(name)) db.createObjectStore(name);
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(toStorageError(request.error));
+    })
+      .then(async (db) => {
+        await migrateLegacyStorage(db);
+        return db;
+      })
+      .catch((error) => {
+        dbPromise = null;
+        throw error;
+      });
+  }
+  return dbPromise;
+};
+
+// ----------------------------------------
+// Wardrobe
+// ----------------------------------------
+// Images already written to IndexedDB, so saves only touch changed photos.
+const persistedImages = new Map<string, string>();
+
+// Metadata only; photos come from loadWardrobeImages so the grid can render first.
+export const loadWardrobe = async (): Promise<ClothingItem[]> => {
+  const db = await openDatabase();
+  const items = await readAll<Omit<ClothingItem, "image">>(db, STORES.items);
+  return items.map((item) => normalizeClothingItem({ ...item, image: "" }));
+};
+
+export const loadWardrobeImages = async (): Promise<Record<string, string>> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.images, "readonly");
+  const store = tx.objectStore(STORES.images);
+  const [keys, values] = await Promise.all([
+    promisifyRequest(store.getAllKeys()),
+    promisifyRequest<(Blob | string)[]>(store.getAll()),
+  ]);
+
+  const images: Record<string, string> = {};
+  await Promise.all(
+    keys.map(async (key, i) => {
+      const value = values[i];
+      const image = typeof value === "string" ? value : await blobToDataUrl(value);
+      images[String(key)] = image;
+      persistedImages.set(String(key), image);
+    })
+  );
+  return images;
+};
+
+export const saveWardrobe = async (items: ClothingItem[]) => {
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.items, STORES.images], "readwrite");
+  const itemStore = tx.objectStore(STORES.items);
+  const imageStore = tx.objectStore(STORES.images);
+
+  itemStore.clear();
+  putAll(itemStore, items.map(({ image, ...meta }) => meta));
+
+  const written: ClothingItem[] = [];
+  items.forEach((item) => {
+    if (item.image && persistedImages.get(item.id) !== item.image) {
+      imageStore.put(dataUrlToBlob(item.image), item.id);
+      written.push(item);
+    }
+  });
+
+  const liveIds = new Set(items.map((item) => item.id));
+  const removed = [...persistedImages.keys()].filter((id) => !liveIds.has(id));
+  removed.forEach((id) => imageStore.delete(id));
+
+  await completeTransaction(tx);
+  written.forEach((item) => persistedImages.set(item.id, item.image));
+  removed.forEach((id) => persistedImages.delete(id));
+};
+
+// ----------------------------------------
+// Favorites & Conversation
+// ----------------------------------------
+export const loadFavorites = async (): Promise<OutfitCardData[]> =>
+  readAll<OutfitCardData>(await openDatabase(), STORES.favorites);
+
+export const saveFavorites = (favorites: OutfitCardData[]) =>
+  replaceAll(STORES.favorites, favorites);
+
+export const loadConversation = async (): Promise<ChatMessage[]> =>
+  readAll<ChatMessage>(await openDatabase(), STORES.conversations);
+
+export const saveConversation = (messages: ChatMessage[]) =>
+  replaceAll(STORES.conversations, messages);
+
+// ----------------------------------------
+// Wear history
+// ----------------------------------------
+export const loadWearEvents = async (): Promise<WearEvent[]> =>
+  readAll<WearEvent>(await openDatabase(), STORES.wearEvents);
+
+export const saveWearEvents = (events: WearEvent[]) =>
+  replaceAll(STORES.wearEvents, events);
+
+// ----------------------------------------
+// Outfit calendar
+// ----------------------------------------
+export const loadPlannedOutfits = async (): Promise<PlannedOutfit[]> =>
+  readAll<PlannedOutfit>(await openDatabase(), STORES.plannedOutfits);
+
+export const savePlannedOutfits = (plans: PlannedOutfit[]) =>
+  replaceAll(STORES.plannedOutfits, plans);
+
+// ----------------------------------------
+// Conversation memory
+// ----------------------------------------
+export const loadMemory = async (): Promise<ConversationMemory | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.meta, "readonly");
+  const memory = await promisifyRequest(tx.objectStore(STORES.meta).get(MEMORY_KEY));
+  return (memory as ConversationMemory) || null;
+};
+
+export const saveMemory = async (memory: ConversationMemory) => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.meta, "readwrite");
+  tx.objectStore(STORES.meta).put(memory, MEMORY_KEY);
+  await completeTransaction(tx);
+};
+
+// ----------------------------------------
+// Weather
+// ----------------------------------------
+export const loadManualWeather = async (): Promise<WeatherContext | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.meta, "readonly");
+  const weather = await promisifyRequest(tx.objectStore(STORES.meta).get(WEATHER_KEY));
+  return (weather as WeatherContext) || null;
+};
+
+// `null` goes back to the forecast.
+export const saveManualWeather = async (weather: WeatherContext | null) => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.meta, "readwrite");
+  if (weather) tx.objectStore(STORES.meta).put(weather, WEATHER_KEY);
+  else tx.objectStore(STORES.meta).delete(WEATHER_KEY);
+  await completeTransaction(tx);
+};
+
+// ----------------------------------------
+// Upload queue
+// ----------------------------------------
+// Jobs keep their original file as a Blob, so an import survives a reload.
+export const loadIngestJobs = async (): Promise<IngestJob[]> => {
+  const jobs = await readAll<IngestJob>(await openDatabase(), STORES.ingestQueue);
+  return jobs.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveIngestJob = async (job: IngestJob) => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.ingestQueue, "readwrite");
+  tx.objectStore(STORES.ingestQueue).put(job);
+  await completeTransaction(tx);
+};
+
+export const deleteIngestJobs = async (ids: string[]) => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.ingestQueue, "readwrite");
+  const store = tx.objectStore(STORES.ingestQueue);
+  ids.forEach((id) => store.delete(id));
+  await completeTransaction(tx);
+};
+
+// ----------------------------------------
+// Response cache
+// ----------------------------------------
+export const loadCacheEntry = async (id: string): Promise<CacheEntry | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.responseCache, "readonly");
+  const entry = await promisifyRequest(tx.objectStore(STORES.responseCache).get(id));
+  return (entry as CacheEntry) || null;
+};
+
+export const saveCacheEntry = async (entry: CacheEntry) => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.responseCache, "readwrite");
+  tx.objectStore(STORES.responseCache).put(entry);
+  await completeTransaction(tx);
+};
+
+// Walks the store once, deleting every entry `keep` rejects.
+export const pruneCacheEntries = async (keep: (entry: CacheEntry) => boolean) => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.responseCache, "readwrite");
+  const request = tx.objectStore(STORES.responseCache).openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    if (!keep(cursor.value as CacheEntry)) cursor.delete();
+    cursor.continue();
+  };
+  await completeTransaction(tx);
+};
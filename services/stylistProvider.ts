@@ -0,0 +1,230 @@
+import { ChatMessage, ClothingItem, ConversationContext, OutfitSuggestion, PlanDayRequest, StylistResponse, WearEvent, WeatherContext } from "../types";
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockStylistService";
+import { SummaryUpdate, describeConversation } from "./memoryService";
+import { wardrobeFingerprint, withCache } from "./cacheService";
+import { guessIntent } from "./intentService";
+import { describeRecentWear, toDateKey } from "./wearService";
+import { scoreStylistResponse } from "./compatibilityService";
+import { filterForWeather } from "./weatherService";
+
+// ----------------------------------------
+// Stylist provider
+// ----------------------------------------
+// Components talk to the stylist only through this module. Gemini is one
+// backend; the mock backend answers from the wardrobe itself, so the app can
+// run offline and without an API key.
+
+export interface SearchResults {
+  text: string;
+  groundingChunks: any[];
+}
+
+export interface StylistStreamOptions {
+  onPartial: (partial: StylistResponse) => void;
+  signal?: AbortSignal;
+}
+
+// Every call rejects with an AIRequestError (see requestService) when it
+// fails; none of them substitute a made-up answer.
+export interface StylistProvider {
+  name: StylistProviderName;
+  analyzeClothingImage(base64Image: string, signal?: AbortSignal): Promise<Partial<ClothingItem>>;
+  searchForItems(query: string, signal?: AbortSignal): Promise<SearchResults>;
+  generateStylistResponse(
+    message: string,
+    wardrobe: ClothingItem[],
+    context: ConversationContext,
+    wearLog?: WearEvent[]
+  ): Promise<StylistResponse>;
+  streamStylistResponse(
+    message: string,
+    wardrobe: ClothingItem[],
+    context: ConversationContext,
+    wearLog: WearEvent[] | undefined,
+    options: StylistStreamOptions
+  ): Promise<StylistResponse>;
+  // Folds turns that left the recent window into the running summary.
+  summarizeConversation(previousSummary: string, messages: ChatMessage[]): Promise<SummaryUpdate>;
+  generateOutfit(
+    wardrobe: ClothingItem[],
+    occasion: string,
+    notes: string,
+    wearLog?: WearEvent[],
+    signal?: AbortSignal,
+    weather?: WeatherContext
+  ): Promise<OutfitSuggestion>;
+  // One outfit per requested day, in the same order.
+  planWeek(
+    wardrobe: ClothingItem[],
+    days: PlanDayRequest[],
+    wearLog?: WearEvent[],
+    signal?: AbortSignal
+  ): Promise<OutfitSuggestion[]>;
+}
+
+export type StylistProviderName = "gemini" | "mock";
+
+const PROVIDERS: Record<StylistProviderName, StylistProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+// STYLIST_PROVIDER picks the backend explicitly; without it, Gemini is used
+// when a key is configured and the mock otherwise.
+export const resolveProviderName = (
+  configured = process.env.STYLIST_PROVIDER,
+  apiKey = process.env.API_KEY
+): StylistProviderName => {
+  const name = configured?.trim().toLowerCase();
+  if (name === "gemini" || name === "mock") return name;
+  if (name) console.warn(`Unknown STYLIST_PROVIDER "${configured}", falling back to the default.`);
+  return apiKey ? "gemini" : "mock";
+};
+
+let current: StylistProvider = PROVIDERS[resolveProviderName()];
+
+export const getStylistProvider = () => current;
+
+// For tests and tooling that need a specific backend.
+export const setStylistProvider = (provider: StylistProvider | StylistProviderName) => {
+  current = typeof provider === "string" ? PROVIDERS[provider] : provider;
+};
+
+// ----------------------------------------
+// Cached entry points
+// ----------------------------------------
+// What components call. Answers are cached per backend (see cacheService);
+// `fresh` asks the model again and replaces the cached answer. Outfits are
+// scored locally on the way out (see compatibilityService), never trusted
+// from the backend. With weather given, pieces unsuited to it are left out
+// before the backend sees the wardrobe, and the answer carries the weather it
+// was picked for.
+
+export interface CallOptions {
+  signal?: AbortSignal;
+  fresh?: boolean;
+}
+
+// Wear history steers answers away from recent outfits, so it is part of the key.
+const wearKey = (wardrobe: ClothingItem[], wearLog: WearEvent[] = []) => [toDateKey(), describeRecentWear(wardrobe, wearLog)];
+
+// Same weather, same answer; where it came from doesn't matter.
+const weatherKey = (weather?: WeatherContext) =>
+  weather ? [weather.minTempC, weather.maxTempC, weather.precipitation, weather.windKph] : null;
+
+// A message the keyword rules can't place is probably a follow-up ("and
+// shoes?"), so the turns before it become part of its key.
+const stylistKey = (message: string, wardrobe: ClothingItem[], context: ConversationContext, wearLog?: WearEvent[]) => [
+  current.name,
+  message.trim().toLowerCase(),
+  context.facts,
+  guessIntent(message).confident ? null : describeConversation(context.recent.slice(-2)),
+  weatherKey(context.weather),
+  ...wearKey(wardrobe, wearLog),
+];
+
+// Only answers that picked clothes were picked for the weather.
+const withWeather = <T extends StylistResponse | OutfitSuggestion>(answer: T, weather?: WeatherContext): T => {
+  const picked = "outfits" in answer ? answer.outfits.length > 0 : answer.selectedItemIds.length > 0;
+  return weather && picked ? { ...answer, weather } : answer;
+};
+
+// Small talk isn't worth keeping, nor is an answer with nothing in it.
+const isCacheableReply = (response: StylistResponse) =>
+  ({
+    wardrobe_outfit: response.outfits.length > 0,
+    new_ideas: !!response.ideas?.length,
+    shopping_help: !!response.shoppingItems?.length,
+    chat: false,
+  })[response.mode];
+
+export const analyzeClothingImage = (base64Image: string, { signal, fresh }: CallOptions = {}) =>
+  withCache("analysis", [current.name, base64Image], () => current.analyzeClothingImage(base64Image, signal), { fresh });
+
+export const searchForItems = (query: string, { signal, fresh }: CallOptions = {}) =>
+  withCache("search", [current.name, query.trim().toLowerCase()], () => current.searchForItems(query, signal), {
+    fresh,
+    shouldStore: (results: SearchResults) => results.groundingChunks.length > 0,
+  });
+
+export const generateStylistResponse = (
+  message: string,
+  wardrobe: ClothingItem[],
+  context: ConversationContext,
+  wearLog?: WearEvent[],
+  { fresh }: CallOptions = {}
+) =>
+  withCache(
+    "stylist",
+    stylistKey(message, wardrobe, context, wearLog),
+    () => current.generateStylistResponse(message, filterForWeather(wardrobe, context.weather), context, wearLog),
+    { fresh, fingerprint: wardrobeFingerprint(wardrobe), shouldStore: isCacheableReply }
+  ).then((response) => withWeather(scoreStylistResponse(response, wardrobe, message, context.weather), context.weather));
+
+// A cached answer arrives as a single partial.
+export const streamStylistResponse = (
+  message: string,
+  wardrobe: ClothingItem[],
+  context: ConversationContext,
+  wearLog: WearEvent[] | undefined,
+  { fresh, onPartial, signal }: StylistStreamOptions & Pick<CallOptions, "fresh">
+) => {
+  const score = (response: StylistResponse) =>
+    withWeather(scoreStylistResponse(response, wardrobe, message, context.weather), context.weather);
+  let streamed = false;
+  return withCache(
+    "stylist",
+    stylistKey(message, wardrobe, context, wearLog),
+    () => {
+      streamed = true;
+      return current.streamStylistResponse(message, filterForWeather(wardrobe, context.weather), context, wearLog, {
+        signal,
+        onPartial: (partial) => onPartial(score(partial)),
+      });
+    },
+    { fresh, fingerprint: wardrobeFingerprint(wardrobe), shouldStore: isCacheableReply }
+  ).then((response) => {
+    const scored = score(response);
+    if (!streamed) onPartial(scored);
+    return scored;
+  });
+};
+
+export const summarizeConversation: StylistProvider["summarizeConversation"] = (...args) =>
+  current.summarizeConversation(...args);
+
+export const generateOutfit = (
+  wardrobe: ClothingItem[],
+  occasion: string,
+  notes: string,
+  wearLog?: WearEvent[],
+  { signal, fresh, weather }: CallOptions & { weather?: WeatherContext } = {}
+) =>
+  withCache(
+    "outfit",
+    [current.name, occasion.trim().toLowerCase(), notes.trim().toLowerCase(), weatherKey(weather), ...wearKey(wardrobe, wearLog)],
+    () => current.generateOutfit(filterForWeather(wardrobe, weather), occasion, notes, wearLog, signal, weather),
+    {
+      fresh,
+      fingerprint: wardrobeFingerprint(wardrobe),
+      shouldStore: (suggestion: OutfitSuggestion) => suggestion.selectedItemIds.length > 0,
+    }
+  ).then((suggestion) => withWeather(suggestion, weather));
+
+export const planWeek = (
+  wardrobe: ClothingItem[],
+  days: PlanDayRequest[],
+  wearLog?: WearEvent[],
+  { signal, fresh }: CallOptions = {}
+) =>
+  withCache(
+    "outfit",
+    [current.name, "week", days.map((day) => [day.date, day.occasion.trim().toLowerCase()]), ...wearKey(wardrobe, wearLog)],
+    () => current.planWeek(wardrobe, days, wearLog, signal),
+    {
+      fresh,
+      fingerprint: wardrobeFingerprint(wardrobe),
+      shouldStore: (suggestions: OutfitSuggestion[]) => suggestions.some((s) => s.selectedItemIds.length > 0),
+    }
+  );
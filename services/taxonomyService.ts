@@ -0,0 +1,286 @@
+import { CategoryGroup, ClothingItem, Formality, Season } from "../types";
+
+// ----------------------------------------
+// Clothing taxonomy
+// ----------------------------------------
+// The single source of truth for categories, seasons, style tags and
+// formality. The analysis schema is built from these lists, and the
+// normalizers below map older free-text values onto them.
+
+export const CATEGORY_TREE: Record<CategoryGroup, string[]> = {
+  top: ["T-Shirt", "Shirt", "Blouse", "Polo", "Tank Top", "Crop Top", "Sweater", "Sweatshirt", "Hoodie", "Kurta"],
+  bottom: ["Jeans", "Trousers", "Chinos", "Shorts", "Skirt", "Leggings", "Joggers"],
+  "one-piece": ["Dress", "Jumpsuit", "Saree"],
+  outerwear: ["Jacket", "Denim Jacket", "Leather Jacket", "Blazer", "Coat", "Trench Coat", "Puffer", "Cardigan"],
+  footwear: ["Sneakers", "Boots", "Loafers", "Formal Shoes", "Heels", "Flats", "Sandals"],
+  accessory: ["Bag", "Belt", "Hat", "Cap", "Scarf", "Tie", "Watch", "Jewelry", "Sunglasses"],
+};
+
+export const CATEGORY_GROUP_LABELS: Record<CategoryGroup, string> = {
+  top: "Tops",
+  bottom: "Bottoms",
+  "one-piece": "Dresses & One-Pieces",
+  outerwear: "Outerwear",
+  footwear: "Footwear",
+  accessory: "Accessories",
+};
+
+export const CATEGORIES = Object.values(CATEGORY_TREE).flat();
+
+export const SEASONS: Season[] = ["Spring", "Summer", "Autumn", "Winter", "All-Season"];
+
+export const STYLE_TAGS = [
+  "Casual",
+  "Smart Casual",
+  "Business",
+  "Formal",
+  "Party",
+  "Streetwear",
+  "Sporty",
+  "Minimalist",
+  "Classic",
+  "Bohemian",
+  "Vintage",
+  "Preppy",
+  "Ethnic",
+  "Loungewear",
+];
+
+// Ordered from least to most formal.
+export const FORMALITY_LEVELS: Formality[] = ["athleisure", "casual", "smart-casual", "business", "formal"];
+
+export const FORMALITY_LABELS: Record<Formality, string> = {
+  athleisure: "Athleisure",
+  casual: "Casual",
+  "smart-casual": "Smart Casual",
+  business: "Business",
+  formal: "Formal",
+};
+
+// ----------------------------------------
+// Normalization
+// ----------------------------------------
+const simplify = (value: string) => value.toLowerCase().replace(/[^a-z]+/g, " ").trim();
+
+const CATEGORY_ALIASES: Record<string, string> = {
+  tshirt: "T-Shirt",
+  "t shirt": "T-Shirt",
+  tee: "T-Shirt",
+  top: "T-Shirt",
+  "graphic tee": "T-Shirt",
+  "button down": "Shirt",
+  "button up": "Shirt",
+  "dress shirt": "Shirt",
+  "polo shirt": "Polo",
+  tank: "Tank Top",
+  camisole: "Tank Top",
+  jumper: "Sweater",
+  pullover: "Sweater",
+  knit: "Sweater",
+  sweatshirt: "Sweatshirt",
+  hoodie: "Hoodie",
+  hoody: "Hoodie",
+  kurti: "Kurta",
+  denim: "Jeans",
+  jean: "Jeans",
+  pants: "Trousers",
+  pant: "Trousers",
+  slacks: "Trousers",
+  khakis: "Chinos",
+  chino: "Chinos",
+  short: "Shorts",
+  tights: "Leggings",
+  sweatpants: "Joggers",
+  trackpants: "Joggers",
+  "track pants": "Joggers",
+  gown: "Dress",
+  frock: "Dress",
+  romper: "Jumpsuit",
+  overalls: "Jumpsuit",
+  sari: "Saree",
+  "denim jacket": "Denim Jacket",
+  "leather jacket": "Leather Jacket",
+  "bomber jacket": "Jacket",
+  windbreaker: "Jacket",
+  "suit jacket": "Blazer",
+  overcoat: "Coat",
+  parka: "Coat",
+  trench: "Trench Coat",
+  "puffer jacket": "Puffer",
+  "down jacket": "Puffer",
+  trainers: "Sneakers",
+  sneaker: "Sneakers",
+  "running shoes": "Sneakers",
+  boot: "Boots",
+  loafer: "Loafers",
+  moccasins: "Loafers",
+  oxfords: "Formal Shoes",
+  brogues: "Formal Shoes",
+  "dress shoes": "Formal Shoes",
+  pumps: "Heels",
+  stilettos: "Heels",
+  ballerinas: "Flats",
+  "ballet flats": "Flats",
+  slides: "Sandals",
+  "flip flops": "Sandals",
+  handbag: "Bag",
+  purse: "Bag",
+  tote: "Bag",
+  backpack: "Bag",
+  beanie: "Hat",
+  "baseball cap": "Cap",
+  stole: "Scarf",
+  dupatta: "Scarf",
+  necklace: "Jewelry",
+  earrings: "Jewelry",
+  bracelet: "Jewelry",
+  jewellery: "Jewelry",
+  shades: "Sunglasses",
+};
+
+// Every canonical name is also its own alias; longest aliases are tried
+// first so "denim jacket" wins over "denim".
+const CATEGORY_LOOKUP: [string, string][] = [
+  ...CATEGORIES.map((c): [string, string] => [simplify(c), c]),
+  ...Object.entries(CATEGORY_ALIASES),
+].sort((a, b) => b[0].length - a[0].length);
+
+const GROUP_BY_CATEGORY = new Map<string, CategoryGroup>(
+  (Object.entries(CATEGORY_TREE) as [CategoryGroup, string[]][]).flatMap(([group, subtypes]) =>
+    subtypes.map((subtype): [string, CategoryGroup] => [subtype, group])
+  )
+);
+
+const titleCase = (value: string) => value.trim().replace(/\b\w/g, (c) => c.toUpperCase());
+
+type HeadNounMatch = { endWord: number; aliasLength: number; category: string };
+
+const laterMatch = (a: HeadNounMatch | null, b: HeadNounMatch | null) => {
+  if (!a || !b) return a || b;
+  if (b.endWord !== a.endWord) return b.endWord > a.endWord ? b : a;
+  return b.aliasLength > a.aliasLength ? b : a;
+};
+
+// Positions are counted in words so plain and plural-stripped text compare.
+const findHeadNoun = (text: string): HeadNounMatch | null => {
+  let best: HeadNounMatch | null = null;
+  CATEGORY_LOOKUP.forEach(([alias, category]) => {
+    const index = ` ${text} `.lastIndexOf(` ${alias} `);
+    if (index < 0) return;
+    const endWord = text.slice(0, index).split(" ").filter(Boolean).length + alias.split(" ").length;
+    best = laterMatch(best, { endWord, aliasLength: alias.length, category });
+  });
+  return best;
+};
+
+// Unknown categories are kept (title-cased) rather than thrown away. The
+// head noun usually comes last ("shirt dress" is a dress), so among
+// whole-word matches the one ending furthest right wins, then the longest.
+export const normalizeCategory = (raw: string): string => {
+  const text = simplify(raw || "");
+  if (!text) return "Unknown";
+  const exact = CATEGORY_LOOKUP.find(([alias]) => alias === text);
+  if (exact) return exact[1];
+  const singular = text.split(" ").map((w) => w.replace(/s$/, "")).join(" ");
+  const match = laterMatch(findHeadNoun(text), findHeadNoun(singular));
+  return match ? match.category : titleCase(raw);
+};
+
+export const getCategoryGroup = (category: string): CategoryGroup | null =>
+  GROUP_BY_CATEGORY.get(category) || GROUP_BY_CATEGORY.get(normalizeCategory(category)) || null;
+
+const SEASON_ALIASES: Record<string, Season[]> = {
+  spring: ["Spring"],
+  summer: ["Summer"],
+  autumn: ["Autumn"],
+  fall: ["Autumn"],
+  winter: ["Winter"],
+  monsoon: ["Summer"],
+  "all season": ["All-Season"],
+  "all seasons": ["All-Season"],
+  allseason: ["All-Season"],
+  "all year": ["All-Season"],
+  allyear: ["All-Season"],
+  "year round": ["All-Season"],
+  any: ["All-Season"],
+  transitional: ["Spring", "Autumn"],
+};
+
+// Handles "All-Year", "Spring/Summer", "fall" and similar.
+export const normalizeSeasons = (raw: string[]): Season[] => {
+  const result = new Set<Season>();
+  (raw || []).forEach((value) => {
+    const whole = simplify(value);
+    const parts = SEASON_ALIASES[whole] ? [whole] : whole.split(/ and | /);
+    parts.forEach((part) => SEASON_ALIASES[part]?.forEach((s) => result.add(s)));
+  });
+  return SEASONS.filter((s) => result.has(s));
+};
+
+const STYLE_ALIASES: Record<string, string> = {
+  everyday: "Casual",
+  relaxed: "Casual",
+  "smart casual": "Smart Casual",
+  smartcasual: "Smart Casual",
+  "business casual": "Smart Casual",
+  office: "Business",
+  work: "Business",
+  professional: "Business",
+  elegant: "Formal",
+  "black tie": "Formal",
+  evening: "Party",
+  festive: "Party",
+  street: "Streetwear",
+  urban: "Streetwear",
+  athletic: "Sporty",
+  athleisure: "Sporty",
+  sport: "Sporty",
+  gym: "Sporty",
+  minimal: "Minimalist",
+  timeless: "Classic",
+  boho: "Bohemian",
+  retro: "Vintage",
+  traditional: "Ethnic",
+  indian: "Ethnic",
+  lounge: "Loungewear",
+  comfy: "Loungewear",
+};
+
+const STYLE_LOOKUP = new Map<string, string>([
+  ...STYLE_TAGS.map((tag): [string, string] => [simplify(tag), tag]),
+  ...Object.entries(STYLE_ALIASES),
+]);
+
+// Tags outside the vocabulary are dropped; they can't be filtered on anyway.
+export const normalizeStyles = (raw: string[]): string[] => {
+  const result = new Set<string>();
+  (raw || []).forEach((value) => {
+    const tag = STYLE_LOOKUP.get(simplify(value));
+    if (tag) result.add(tag);
+  });
+  return STYLE_TAGS.filter((tag) => result.has(tag));
+};
+
+export const normalizeFormality = (raw: unknown, styles: string[] = []): Formality => {
+  if (typeof raw === "string") {
+    const key = simplify(raw).replace(/ /g, "-");
+    if ((FORMALITY_LEVELS as string[]).includes(key)) return key as Formality;
+  }
+  // Legacy items have no formality; infer it from their style tags.
+  if (styles.includes("Formal")) return "formal";
+  if (styles.includes("Business")) return "business";
+  if (styles.includes("Smart Casual") || styles.includes("Party")) return "smart-casual";
+  if (styles.includes("Sporty") || styles.includes("Loungewear")) return "athleisure";
+  return "casual";
+};
+
+export const normalizeTaxonomy = <T extends Partial<ClothingItem>>(item: T): T => {
+  const style = normalizeStyles(item.style || []);
+  return {
+    ...item,
+    category: normalizeCategory(item.category || ""),
+    season: normalizeSeasons(item.season || []),
+    style,
+    formality: normalizeFormality(item.formality, style),
+  };
+};
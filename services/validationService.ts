@@ -0,0 +1,302 @@
+import {
+  CategoryGroup,
+  ClothingItem,
+  MissingItem,
+  OutfitCardData,
+  OutfitSuggestion,
+  PinterestLook,
+  StyleIdea,
+  StylistResponse,
+} from "../types";
+import { getCategoryGroup } from "./taxonomyService";
+import { clampScore, createOutfitId } from "./outfitService";
+
+// ----------------------------------------
+// Model output validation
+// ----------------------------------------
+// Every stylist answer is checked against the wardrobe it was generated for
+// before it reaches the UI. Broken parts are repaired where the intent is
+// clear and dropped otherwise; the issues found are returned so the caller
+// can re-prompt, and tallied so misbehaviour is visible over time.
+
+export type ValidationIssueKind =
+  | "unknown-item" // ID not in the wardrobe
+  | "duplicate-item"
+  | "duplicate-category" // e.g. two pairs of shoes in one outfit
+  | "invalid-url"
+  | "empty-outfit"
+  | "missing-field";
+
+export interface ValidationIssue {
+  kind: ValidationIssueKind;
+  detail: string;
+}
+
+export interface ValidationResult<T> {
+  value: T; // Repaired
+  issues: ValidationIssue[];
+  usable: boolean; // False when the repaired answer is not worth showing
+}
+
+// Groups an outfit can hold only one of. Tops and accessories layer fine.
+const EXCLUSIVE_GROUPS: CategoryGroup[] = ["footwear", "bottom", "one-piece"];
+
+// ----------------------------------------
+// Stats
+// ----------------------------------------
+export interface ValidationStats {
+  responses: number;
+  withIssues: number;
+  unusable: number;
+  reprompts: number;
+  issues: Record<ValidationIssueKind, number>;
+}
+
+const stats: ValidationStats = {
+  responses: 0,
+  withIssues: 0,
+  unusable: 0,
+  reprompts: 0,
+  issues: {
+    "unknown-item": 0,
+    "duplicate-item": 0,
+    "duplicate-category": 0,
+    "invalid-url": 0,
+    "empty-outfit": 0,
+    "missing-field": 0,
+  },
+};
+
+export const getValidationStats = (): ValidationStats => ({ ...stats, issues: { ...stats.issues } });
+
+export const recordReprompt = () => {
+  stats.reprompts++;
+};
+
+const record = (source: string, result: ValidationResult<unknown>) => {
+  stats.responses++;
+  if (result.issues.length) stats.withIssues++;
+  if (!result.usable) stats.unusable++;
+  result.issues.forEach((issue) => stats.issues[issue.kind]++);
+  if (result.issues.length) {
+    console.warn(
+      `[validation] ${source}: ${result.issues.length} issue(s)${result.usable ? "" : ", unusable"}`,
+      result.issues,
+      getValidationStats()
+    );
+  }
+};
+
+// ----------------------------------------
+// Repairs
+// ----------------------------------------
+// "www.myntra.com/x" gains a scheme; anything else that isn't http(s) is rejected.
+export const repairUrl = (raw: unknown): string | null => {
+  if (typeof raw !== "string" || !raw.trim()) return null;
+  let value = raw.trim();
+  if (!/^[a-z][a-z0-9+.-]*:/i.test(value) && /^[\w-]+(\.[\w-]+)+(\/|$)/.test(value)) value = `https://${value}`;
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" || url.protocol === "http:" ? url.toString() : null;
+  } catch {
+    return null;
+  }
+};
+
+// Models sometimes echo the prompt format ("ID: abc") or pad with spaces.
+const cleanId = (raw: unknown) => (typeof raw === "string" ? raw.replace(/^\s*id\s*:\s*/i, "").trim() : "");
+
+const findClash = (group: CategoryGroup, taken: Map<CategoryGroup, ClothingItem>) => {
+  if (!EXCLUSIVE_GROUPS.includes(group)) return undefined;
+  // A dress and a pair of trousers don't go on together either.
+  const rival = group === "bottom" ? "one-piece" : group === "one-piece" ? "bottom" : null;
+  return taken.get(group) || (rival ? taken.get(rival) : undefined);
+};
+
+// `asOutfit` adds the one-per-slot rule; idea boards may list any pieces.
+const validateItemIds = (
+  rawIds: unknown,
+  wardrobe: ClothingItem[],
+  label: string,
+  issues: ValidationIssue[],
+  asOutfit = true
+) => {
+  const byId = new Map(wardrobe.map((item) => [item.id, item]));
+  const kept: string[] = [];
+  const taken = new Map<CategoryGroup, ClothingItem>();
+
+  (Array.isArray(rawIds) ? rawIds : []).forEach((raw) => {
+    const id = cleanId(raw);
+    const item = byId.get(id);
+    if (!item) {
+      issues.push({ kind: "unknown-item", detail: `${label}: "${String(raw)}" is not in the wardrobe` });
+      return;
+    }
+    if (kept.includes(id)) {
+      issues.push({ kind: "duplicate-item", detail: `${label}: ${id} listed twice` });
+      return;
+    }
+    const group = getCategoryGroup(item.category);
+    const clash = group && asOutfit ? findClash(group, taken) : undefined;
+    if (clash) {
+      issues.push({
+        kind: "duplicate-category",
+        detail: `${label}: ${item.category} (${id}) clashes with ${clash.category} (${clash.id})`,
+      });
+      return;
+    }
+    if (group) taken.set(group, item);
+    kept.push(id);
+  });
+
+  return kept;
+};
+
+const validateMissingItems = (items: MissingItem[], label: string, issues: ValidationIssue[]) =>
+  (items || []).map((missing) => ({
+    ...missing,
+    shoppingOptions: (missing.shoppingOptions || []).flatMap((option) => {
+      const url = repairUrl(option.url);
+      if (!url) {
+        issues.push({ kind: "invalid-url", detail: `${label}: shopping link "${option.url}" for ${missing.name}` });
+        return [];
+      }
+      return [{ ...option, url }];
+    }),
+  }));
+
+const validateLooks = (looks: PinterestLook[], label: string, issues: ValidationIssue[]) =>
+  (looks || []).flatMap((look) => {
+    const pinterestUrl = repairUrl(look.pinterestUrl);
+    if (!pinterestUrl) {
+      issues.push({ kind: "invalid-url", detail: `${label}: inspiration link "${look.pinterestUrl}"` });
+      return [];
+    }
+    // A bad preview is only cosmetic; the card falls back to a placeholder.
+    return [{ ...look, pinterestUrl, previewImageUrl: repairUrl(look.previewImageUrl) || "" }];
+  });
+
+const validateOutfit = (
+  outfit: OutfitCardData,
+  wardrobe: ClothingItem[],
+  issues: ValidationIssue[]
+): OutfitCardData | null => {
+  const label = `"${outfit.title || "Untitled"}"`;
+  const proposed = Array.isArray(outfit.selectedItemIds) ? outfit.selectedItemIds.length : 0;
+  const selectedItemIds = validateItemIds(outfit.selectedItemIds, wardrobe, label, issues);
+  const missingItems = validateMissingItems(outfit.missingItems, label, issues);
+  const pinterestLooks = validateLooks(outfit.pinterestLooks, label, issues);
+
+  // An outfit whose every wardrobe pick was invented has nothing left to show.
+  if ((proposed > 0 && selectedItemIds.length === 0) || (!selectedItemIds.length && !missingItems.length && !pinterestLooks.length)) {
+    issues.push({ kind: "empty-outfit", detail: `${label}: nothing valid left` });
+    return null;
+  }
+
+  return {
+    ...outfit,
+    // The id follows the items, so repairs must re-derive it.
+    id: createOutfitId(selectedItemIds, outfit.title),
+    matchScore: clampScore(outfit.matchScore),
+    selectedItemIds,
+    missingItems,
+    pinterestLooks,
+  };
+};
+
+const validateIdea = (idea: StyleIdea, wardrobe: ClothingItem[], issues: ValidationIssue[]): StyleIdea | null => {
+  const label = `idea "${idea.title || "Untitled"}"`;
+  if (!idea.title?.trim() || !idea.description?.trim()) {
+    issues.push({ kind: "missing-field", detail: `${label}: title or description is empty` });
+    return null;
+  }
+  return {
+    ...idea,
+    keyPieces: (idea.keyPieces || []).filter((p) => typeof p === "string" && p.trim()),
+    wardrobeItemIds: validateItemIds(idea.wardrobeItemIds, wardrobe, label, issues, false),
+    pinterestLooks: validateLooks(idea.pinterestLooks, label, issues),
+  };
+};
+
+// ----------------------------------------
+// Public checks
+// ----------------------------------------
+// `record: false` is for streamed partials, which are checked again when final.
+export const validateStylistResponse = (
+  response: StylistResponse,
+  wardrobe: ClothingItem[],
+  { record: shouldRecord = true } = {}
+): ValidationResult<StylistResponse> => {
+  const issues: ValidationIssue[] = [];
+  if (!response.message?.trim()) issues.push({ kind: "missing-field", detail: "message is empty" });
+
+  const proposed = response.outfits || [];
+  const seen = new Set<string>();
+  const outfits = proposed
+    .map((outfit) => validateOutfit(outfit, wardrobe, issues))
+    .filter((outfit): outfit is OutfitCardData => {
+      if (!outfit || seen.has(outfit.id)) return false;
+      seen.add(outfit.id);
+      return true;
+    });
+
+  const value: StylistResponse = {
+    ...response,
+    message: response.message || "",
+    outfits,
+    suggestions: (response.suggestions || []).filter((s) => typeof s === "string" && s.trim()),
+  };
+  if (response.ideas) {
+    value.ideas = response.ideas
+      .map((idea) => validateIdea(idea, wardrobe, issues))
+      .filter((idea): idea is StyleIdea => !!idea);
+  }
+  if (response.shoppingItems) {
+    value.shoppingItems = validateMissingItems(response.shoppingItems, "shopping", issues);
+  }
+
+  // Unusable: nothing to say, or nothing valid left of what the mode is for.
+  const hasMessage = !!value.message.trim();
+  const usable = {
+    wardrobe_outfit: hasMessage && (proposed.length === 0 || outfits.length > 0),
+    new_ideas: hasMessage && !!value.ideas?.length,
+    shopping_help: hasMessage && !!value.shoppingItems?.length,
+    chat: hasMessage,
+  }[value.mode];
+
+  const result = { value, issues, usable };
+  if (shouldRecord) record("stylist", result);
+  return result;
+};
+
+export const validateOutfitSuggestion = (
+  suggestion: OutfitSuggestion,
+  wardrobe: ClothingItem[]
+): ValidationResult<OutfitSuggestion> => {
+  const issues: ValidationIssue[] = [];
+  ["outfitName", "description"].forEach((field) => {
+    if (typeof (suggestion as any)[field] !== "string" || !(suggestion as any)[field].trim()) {
+      issues.push({ kind: "missing-field", detail: `${field} is empty` });
+    }
+  });
+
+  const selectedItemIds = validateItemIds(suggestion.selectedItemIds, wardrobe, `"${suggestion.outfitName}"`, issues);
+  const value: OutfitSuggestion = {
+    outfitName: suggestion.outfitName || "Your outfit",
+    description: suggestion.description || "",
+    reasoning: suggestion.reasoning || "",
+    selectedItemIds,
+    missingItems: (Array.isArray(suggestion.missingItems) ? suggestion.missingItems : []).filter(
+      (m) => typeof m === "string" && m.trim()
+    ),
+  };
+  const usable = selectedItemIds.length > 0;
+
+  const result = { value, issues, usable };
+  record("outfit", result);
+  return result;
+};
+
+// Fed back to the model on the single retry.
+export const describeIssues = (issues: ValidationIssue[]) =>
+  issues.map((issue) => `- ${issue.detail}`).join("\n");
@@ -0,0 +1,96 @@
+import { ClothingItem, ItemWearStats, WearEvent } from "../types";
+
+// ----------------------------------------
+// Wear history
+// ----------------------------------------
+// Wear events are the only thing stored; counts, last-worn dates and
+// cost-per-wear are derived from them on demand.
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// Local calendar day, so "today" matches what the user sees on their clock.
+export const toDateKey = (date: Date = new Date()) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const daysBetween = (from: string, to: string) => {
+  const [a, b] = [from, to].map((key) => {
+    const [y, m, d] = key.split("-").map(Number);
+    return Date.UTC(y, m - 1, d);
+  });
+  return Math.round((b - a) / 86_400_000);
+};
+
+export const addDays = (key: string, days: number) => {
+  const [y, m, d] = key.split("-").map(Number);
+  return toDateKey(new Date(y, m - 1, d + days));
+};
+
+export const createWearEvent = (itemIds: string[], outfitId?: string, date = toDateKey()): WearEvent => ({
+  id: crypto.randomUUID(),
+  date,
+  itemIds: Array.from(new Set(itemIds)),
+  outfitId,
+  timestamp: Date.now(),
+});
+
+export const computeWearStats = (
+  items: ClothingItem[],
+  events: WearEvent[]
+): Record<string, ItemWearStats> => {
+  const stats: Record<string, ItemWearStats> = {};
+  items.forEach((item) => (stats[item.id] = { wearCount: 0 }));
+
+  // One item counts once per day, even if logged from two outfits.
+  const counted = new Set<string>();
+  events.forEach((event) => {
+    event.itemIds.forEach((id) => {
+      const entry = stats[id];
+      if (!entry || counted.has(`${id}|${event.date}`)) return;
+      counted.add(`${id}|${event.date}`);
+      entry.wearCount++;
+      if (!entry.lastWorn || event.date > entry.lastWorn) entry.lastWorn = event.date;
+    });
+  });
+
+  items.forEach((item) => {
+    const entry = stats[item.id];
+    if (item.purchasePrice != null && entry.wearCount > 0) {
+      entry.costPerWear = Math.round((item.purchasePrice / entry.wearCount) * 100) / 100;
+    }
+  });
+
+  return stats;
+};
+
+export const lastWornDate = (events: WearEvent[], match: (event: WearEvent) => boolean) =>
+  events.filter(match).reduce<string | undefined>((latest, e) => (!latest || e.date > latest ? e.date : latest), undefined);
+
+export const formatLastWorn = (date?: string, today = toDateKey()) => {
+  if (!date) return "Never worn";
+  const days = daysBetween(date, today);
+  if (days <= 0) return "Worn today";
+  if (days === 1) return "Worn yesterday";
+  return `Worn ${days} days ago`;
+};
+
+// Prompt section telling the model what was worn lately, newest first.
+export const describeRecentWear = (
+  wardrobe: ClothingItem[],
+  events: WearEvent[],
+  days = 14,
+  today = toDateKey()
+) => {
+  const byId = new Map(wardrobe.map((item) => [item.id, item]));
+  const lines = events
+    .filter((e) => daysBetween(e.date, today) >= 0 && daysBetween(e.date, today) <= days)
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .map((e) => {
+      const worn = e.itemIds
+        .map((id) => byId.get(id))
+        .filter((item): item is ClothingItem => !!item)
+        .map((item) => `ID: ${item.id} (${item.color} ${item.category})`);
+      return worn.length ? `${e.date}: ${worn.join(", ")}` : null;
+    })
+    .filter(Boolean);
+  return lines.join("\n");
+};
@@ -0,0 +1,267 @@
+import { CategoryGroup, ClothingItem, Precipitation, Season, WeatherContext } from "../types";
+import { loadManualWeather, saveManualWeather } from "./storageService";
+import { getCategoryGroup } from "./taxonomyService";
+import { toDateKey } from "./wearService";
+
+// ----------------------------------------
+// Weather
+// ----------------------------------------
+// Outfits are picked for the weather they'll be worn in. Weather typed in by
+// the user always wins; otherwise a forecast backend is asked, if one is
+// configured. Without either, requests go out with no weather at all.
+
+export const WEATHER_SETTINGS = {
+  hotC: 24, // A day averaging this or more is hot
+  coldC: 10, // A day averaging this or less is cold
+  windyKph: 30, // Wind this strong makes it feel colder
+  windChillC: 3,
+  locationTimeoutMs: 8000,
+  forecastTtlMs: 60 * 60 * 1000,
+};
+
+export interface WeatherProvider {
+  name: WeatherProviderName;
+  // Null when there's nothing to go on for that day.
+  getWeather(date: string, signal?: AbortSignal): Promise<WeatherContext | null>;
+}
+
+export type WeatherProviderName = "manual" | "open-meteo";
+
+export const PRECIPITATION_LABELS: Record<Precipitation, string> = {
+  none: "Dry",
+  rain: "Rain",
+  snow: "Snow",
+};
+
+// ----------------------------------------
+// Manual entry
+// ----------------------------------------
+// Also the offline backend: it knows only what the user typed in. An entry
+// is for the day it was typed in and is dropped once that day has passed.
+let manual: WeatherContext | null = null;
+let manualLoaded: Promise<void> | null = null;
+
+const ensureManualLoaded = () =>
+  (manualLoaded ??= loadManualWeather()
+    .then((stored) => {
+      manual = stored;
+    })
+    .catch((error) => console.warn("Couldn't load saved weather", error)));
+
+export const createManualWeather = (
+  fields: Pick<WeatherContext, "minTempC" | "maxTempC" | "precipitation" | "windKph">,
+  date = toDateKey()
+): WeatherContext => ({
+  minTempC: Math.min(fields.minTempC, fields.maxTempC),
+  maxTempC: Math.max(fields.minTempC, fields.maxTempC),
+  precipitation: fields.precipitation,
+  windKph: Math.max(0, fields.windKph),
+  source: "manual",
+  date,
+});
+
+// `null` clears the entry and goes back to the forecast.
+export const setManualWeather = async (weather: WeatherContext | null) => {
+  await ensureManualLoaded();
+  manual = weather;
+  await saveManualWeather(weather);
+};
+
+const manualWeatherProvider: WeatherProvider = {
+  name: "manual",
+  getWeather: async (date) => {
+    await ensureManualLoaded();
+    // Entries saved before they carried a date can't be placed, so they go too
+    if (manual && (!manual.date || manual.date < toDateKey())) {
+      manual = null;
+      saveManualWeather(null).catch((error) => console.warn("Couldn't clear old weather", error));
+    }
+    return manual?.date === date ? manual : null;
+  },
+};
+
+// ----------------------------------------
+// Open-Meteo forecast
+// ----------------------------------------
+// Free and keyless. WEATHER_LOCATION ("lat,lon") fixes the place; otherwise
+// the browser is asked where the user is.
+const parseLocation = (configured = process.env.WEATHER_LOCATION) => {
+  const [lat, lon] = (configured || "").split(",").map((part) => Number.parseFloat(part));
+  return Number.isFinite(lat) && Number.isFinite(lon) ? { lat, lon } : null;
+};
+
+const locate = () =>
+  new Promise<{ lat: number; lon: number }>((resolve, reject) => {
+    if (!navigator.geolocation) return reject(new Error("Geolocation unavailable"));
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => resolve({ lat: coords.latitude, lon: coords.longitude }),
+      reject,
+      { timeout: WEATHER_SETTINGS.locationTimeoutMs, maximumAge: WEATHER_SETTINGS.forecastTtlMs }
+    );
+  });
+
+const toPrecipitation = (rainMm: number, snowCm: number, chance: number): Precipitation => {
+  if (snowCm > 0) return "snow";
+  return rainMm >= 1 || chance >= 50 ? "rain" : "none";
+};
+
+const fetchForecast = async (date: string): Promise<WeatherContext | null> => {
+  const { lat, lon } = parseLocation() || (await locate());
+  const params = new URLSearchParams({
+    latitude: lat.toFixed(3),
+    longitude: lon.toFixed(3),
+    daily: "temperature_2m_min,temperature_2m_max,rain_sum,snowfall_sum,precipitation_probability_max,wind_speed_10m_max",
+    timezone: "auto",
+    start_date: date,
+    end_date: date,
+  });
+  const res = await fetch(`https://api.open-meteo.com/v1/forecast?${params}`);
+  if (!res.ok) throw new Error(`Forecast request failed (${res.status})`);
+  const { daily } = await res.json();
+  const min = daily?.temperature_2m_min?.[0];
+  const max = daily?.temperature_2m_max?.[0];
+  if (typeof min !== "number" || typeof max !== "number") return null;
+  return {
+    minTempC: Math.round(min),
+    maxTempC: Math.round(max),
+    precipitation: toPrecipitation(daily.rain_sum?.[0] || 0, daily.snowfall_sum?.[0] || 0, daily.precipitation_probability_max?.[0] || 0),
+    windKph: Math.round(daily.wind_speed_10m_max?.[0] || 0),
+    source: "forecast",
+    date,
+    location: `${lat.toFixed(2)}, ${lon.toFixed(2)}`,
+  };
+};
+
+// One request per day per hour; a failure isn't remembered.
+const forecasts = new Map<string, { at: number; weather: Promise<WeatherContext | null> }>();
+
+// The shared request belongs to no one caller, so each stops waiting on its
+// own signal without cancelling it for the others.
+const until = <T>(promise: Promise<T>, signal?: AbortSignal) =>
+  !signal
+    ? promise
+    : new Promise<T>((resolve, reject) => {
+        if (signal.aborted) return reject(signal.reason);
+        const onAbort = () => reject(signal.reason);
+        signal.addEventListener("abort", onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+      });
+
+const openMeteoProvider: WeatherProvider = {
+  name: "open-meteo",
+  getWeather: (date, signal) => {
+    const cached = forecasts.get(date);
+    if (cached && Date.now() - cached.at < WEATHER_SETTINGS.forecastTtlMs) return until(cached.weather, signal);
+    const weather = fetchForecast(date);
+    weather.catch(() => forecasts.delete(date));
+    forecasts.set(date, { at: Date.now(), weather });
+    return until(weather, signal);
+  },
+};
+
+// ----------------------------------------
+// Provider selection
+// ----------------------------------------
+const PROVIDERS: Record<WeatherProviderName, WeatherProvider> = {
+  manual: manualWeatherProvider,
+  "open-meteo": openMeteoProvider,
+};
+
+// WEATHER_PROVIDER=open-meteo turns the forecast on; it is off by default so
+// the app never asks for the user's location unprompted.
+export const resolveWeatherProviderName = (configured = process.env.WEATHER_PROVIDER): WeatherProviderName => {
+  const name = configured?.trim().toLowerCase();
+  if (name === "manual" || name === "open-meteo") return name;
+  if (name) console.warn(`Unknown WEATHER_PROVIDER "${configured}", falling back to manual entry.`);
+  return "manual";
+};
+
+let current: WeatherProvider = PROVIDERS[resolveWeatherProviderName()];
+
+export const getWeatherProvider = () => current;
+
+// For tests and tooling that need a specific backend.
+export const setWeatherProvider = (provider: WeatherProvider | WeatherProviderName) => {
+  current = typeof provider === "string" ? PROVIDERS[provider] : provider;
+};
+
+// Manual entry first, then the forecast. A forecast that can't be had is
+// logged and treated as unknown weather rather than failing the request.
+export const getWeather = async (date = toDateKey(), signal?: AbortSignal): Promise<WeatherContext | null> => {
+  const typed = await manualWeatherProvider.getWeather(date, signal);
+  if (typed || current === manualWeatherProvider) return typed;
+  try {
+    return await current.getWeather(date, signal);
+  } catch (error) {
+    if (!signal?.aborted) console.warn("Weather forecast unavailable", error);
+    return null;
+  }
+};
+
+// ----------------------------------------
+// Dressing for it
+// ----------------------------------------
+// Average of the day, a little colder when it's windy.
+export const feelsLikeC = (weather: WeatherContext) =>
+  (weather.minTempC + weather.maxTempC) / 2 - (weather.windKph >= WEATHER_SETTINGS.windyKph ? WEATHER_SETTINGS.windChillC : 0);
+
+// The season the weather reads as, if it reads as one clearly.
+export const seasonForWeather = (weather?: WeatherContext | null): Season | undefined => {
+  if (!weather) return undefined;
+  const feels = feelsLikeC(weather);
+  if (feels >= WEATHER_SETTINGS.hotC) return "Summer";
+  if (feels <= WEATHER_SETTINGS.coldC) return "Winter";
+  return undefined;
+};
+
+const TOO_WARM = ["Coat", "Puffer", "Sweater", "Sweatshirt", "Hoodie"];
+const TOO_COLD = ["Shorts", "Tank Top", "Crop Top", "Sandals"];
+const TOO_WET: Record<Precipitation, string[]> = {
+  none: [],
+  rain: ["Sandals"],
+  snow: ["Sandals", "Heels", "Flats"],
+};
+
+// Pieces tagged only for the opposite season are out; untagged and
+// all-season pieces always pass.
+const onlyFor = (item: ClothingItem, season: Season) =>
+  item.season.includes(season) && item.season.every((s) => s === season);
+
+export const suitsWeather = (item: ClothingItem, weather: WeatherContext) => {
+  const season = seasonForWeather(weather);
+  if (TOO_WET[weather.precipitation].includes(item.category)) return false;
+  if (season === "Summer") return !TOO_WARM.includes(item.category) && !onlyFor(item, "Winter");
+  if (season === "Winter") return !TOO_COLD.includes(item.category) && !onlyFor(item, "Summer");
+  return true;
+};
+
+// The wardrobe without pieces unsuited to the weather. A category group the
+// filter would empty is kept whole: sandals in the rain beat no shoes at all.
+export const filterForWeather = (wardrobe: ClothingItem[], weather?: WeatherContext | null) => {
+  if (!weather) return wardrobe;
+  const emptied = new Set<CategoryGroup | null>();
+  const groups = new Map<CategoryGroup | null, ClothingItem[]>();
+  wardrobe.forEach((item) => {
+    const group = getCategoryGroup(item.category);
+    groups.set(group, [...(groups.get(group) || []), item]);
+  });
+  groups.forEach((items, group) => {
+    if (!items.some((item) => suitsWeather(item, weather))) emptied.add(group);
+  });
+  return wardrobe.filter((item) => emptied.has(getCategoryGroup(item.category)) || suitsWeather(item, weather));
+};
+
+// "12–18°C, rain, wind 35 km/h"; calm wind is left out unless asked for.
+export const describeWeather = (weather: WeatherContext, { wind = false } = {}) => {
+  const temp = weather.minTempC === weather.maxTempC ? `${weather.minTempC}°C` : `${weather.minTempC}–${weather.maxTempC}°C`;
+  const parts = [temp, PRECIPITATION_LABELS[weather.precipitation].toLowerCase()];
+  if (wind || weather.windKph >= WEATHER_SETTINGS.windyKph) parts.push(`wind ${weather.windKph} km/h`);
+  return parts.join(", ");
+};
+
+// The block prompts carry; layering and rain advice is left to the model.
+export const describeWeatherForPrompt = (weather?: WeatherContext | null) =>
+  weather
+    ? `WEATHER (${weather.source === "manual" ? "given by the user" : "forecast"}): ${describeWeather(weather, { wind: true })}.
+Dress for it: layers when it's cold or windy, nothing that suffers in rain or snow, light pieces when it's hot.`
+    : "WEATHER: Unknown.";
@@ -1,12 +1,82 @@
 
+export type CategoryGroup = 'top' | 'bottom' | 'one-piece' | 'outerwear' | 'footwear' | 'accessory';
+
+export type Season = 'Spring' | 'Summer' | 'Autumn' | 'Winter' | 'All-Season';
+
+export type Formality = 'athleisure' | 'casual' | 'smart-casual' | 'business' | 'formal';
+
+export type EditableItemField = 'category' | 'color' | 'season' | 'style' | 'formality' | 'description';
+
+export interface ColorSwatch {
+  hex: string; // e.g. "#1c2a4a"
+  name: string; // Nearest entry in the fixed named palette
+  share: number; // Fraction of garment pixels, 0-1
+}
+
 export interface ClothingItem {
   id: string;
   image: string; // Base64 or URL
-  category: string;
+  thumbnail?: string; // Small preview for grids; falls back to image
+  imageHash?: string; // Perceptual hash used for duplicate detection
+  palette?: ColorSwatch[]; // 1-3 dominant colors, extracted locally
+  category: string; // Subtype from the taxonomy, e.g. "Jeans"
   color: string;
   season: string[];
   style: string[];
+  formality?: Formality;
+  purchasePrice?: number; // Optional, enables cost-per-wear
   description?: string;
+  editedFields?: EditableItemField[]; // Corrected by hand; re-analysis leaves these alone
+}
+
+export type DuplicateChoice = 'skip' | 'keep' | 'replace';
+
+// Upload pipeline: pending → analyzing → done, with 'duplicate' waiting on
+// the user's choice and 'failed' waiting on a retry or manual add.
+export type IngestStatus = 'pending' | 'analyzing' | 'duplicate' | 'done' | 'failed';
+
+export interface IngestJob {
+  id: string;
+  fileName: string;
+  file?: Blob; // The original upload; dropped once the job is done
+  thumbnail?: string; // Known after preprocessing
+  imageHash?: string; // Likewise; lets copies within one upload find each other
+  status: IngestStatus;
+  error?: string; // Why it failed
+  duplicateOf?: string; // Item id, while status is 'duplicate'
+  allowDuplicate?: boolean; // "Keep both" was chosen
+  itemId?: string; // Item added or replaced, once done
+  createdAt: number;
+}
+
+export type WardrobeFacet = 'category' | 'color' | 'season' | 'style';
+
+export type WardrobeSort = 'newest' | 'category' | 'color';
+
+export interface WardrobeFilters {
+  query: string;
+  facets: Record<WardrobeFacet, string[]>; // Selected facet keys (lower-cased)
+  sort: WardrobeSort;
+}
+
+export interface FacetOption {
+  key: string; // Lower-cased value used for matching
+  label: string;
+  count: number;
+}
+
+export interface WearEvent {
+  id: string;
+  date: string; // Local calendar day, YYYY-MM-DD
+  itemIds: string[];
+  outfitId?: string; // Set when logged from an outfit card
+  timestamp: number;
+}
+
+export interface ItemWearStats {
+  wearCount: number;
+  lastWorn?: string; // YYYY-MM-DD
+  costPerWear?: number; // Only when a purchase price is known
 }
 
 export interface ShoppingOption {
@@ -31,43 +101,164 @@ export interface PinterestLook {
   pinterestUrl: string;
 }
 
+// One rule of the local compatibility score (see compatibilityService).
+export type ScoreRuleId = 'color' | 'season' | 'formality' | 'completeness';
+
+export interface ScoreRule {
+  id: ScoreRuleId;
+  label: string;
+  score: number; // 0-100
+  weight: number; // Share of the total, weights sum to 1
+  note: string; // Why, in a few words
+}
+
 export interface OutfitCardData {
   id: string;
   title: string;
   description: string;
   matchScore: number; // 0-100
+  scoreBreakdown?: ScoreRule[]; // Set when the score was computed locally
   selectedItemIds: string[]; // IDs from wardrobe
   missingItems: MissingItem[];
   pinterestLooks: PinterestLook[];
   reasoning: string;
 }
 
+export interface StyleIdea {
+  id: string;
+  title: string;
+  description: string;
+  keyPieces: string[]; // e.g. "wide-leg trousers"
+  wardrobeItemIds: string[]; // Owned pieces that fit the idea
+  pinterestLooks: PinterestLook[];
+}
+
+export type StylistMode = 'wardrobe_outfit' | 'new_ideas' | 'shopping_help' | 'chat';
+
 export interface StylistResponse {
   message: string;
   outfits: OutfitCardData[];
-  mode: 'wardrobe_outfit' | 'new_ideas' | 'shopping_help' | 'chat';
+  ideas?: StyleIdea[]; // new_ideas
+  shoppingItems?: MissingItem[]; // shopping_help
+  mode: StylistMode;
   suggestions: string[]; // Quick replies
+  weather?: WeatherContext; // What the answer assumed it would be like out
+}
+
+export type CacheScope = 'analysis' | 'outfit' | 'stylist' | 'search';
+
+export interface CacheEntry<T = unknown> {
+  id: string; // `${scope}:${sha-256 of the inputs}`
+  scope: CacheScope;
+  value: T;
+  createdAt: number;
+  expiresAt: number;
+  fingerprint?: string; // Wardrobe the answer was built from, if it depends on one
 }
 
+export type AIErrorKind = 'quota' | 'safety' | 'network' | 'parse' | 'aborted' | 'unknown';
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'stylist';
   content: string; // Text message
   data?: StylistResponse; // Rich content
+  error?: { kind: AIErrorKind; retryText: string }; // Set on a failed reply; `retryText` is what to resend
   timestamp: number;
 }
 
+export interface UserFact {
+  id: string;
+  text: string; // e.g. "Doesn't wear heels"
+  source: 'chat' | 'manual'; // Picked up from the conversation or typed in
+  createdAt: number;
+}
+
+export interface ConversationMemory {
+  summary: string; // Running summary of turns older than the recent window
+  summarizedThrough: number; // Timestamp of the last message folded into the summary
+  facts: UserFact[]; // Durable preferences, kept across "clear chat"
+}
+
+// What a provider sees of the conversation on each turn.
+export interface ConversationContext {
+  recent: ChatMessage[]; // Verbatim window, oldest first
+  summary: string;
+  facts: string[];
+  weather?: WeatherContext; // Outfits are picked for it when set
+}
+
 export interface OutfitSuggestion {
   outfitName: string;
   description: string;
   reasoning: string;
   selectedItemIds: string[];
   missingItems: string[];
+  weather?: WeatherContext; // What the outfit was picked for
+}
+
+// ----------------------------------------
+// Weather
+// ----------------------------------------
+export type Precipitation = 'none' | 'rain' | 'snow';
+
+export interface WeatherContext {
+  minTempC: number;
+  maxTempC: number;
+  precipitation: Precipitation;
+  windKph: number;
+  source: 'manual' | 'forecast'; // Typed in by the user or fetched for the day
+  date?: string; // YYYY-MM-DD the weather is for
+  location?: string; // Where a forecast is for, when known
+}
+
+// ----------------------------------------
+// Outfit calendar
+// ----------------------------------------
+export interface PlanDayRequest {
+  date: string; // YYYY-MM-DD
+  occasion: string;
+}
+
+export interface PlannedOutfit {
+  id: string;
+  date: string; // Local calendar day, YYYY-MM-DD
+  occasion: string;
+  outfit: OutfitCardData; // A copy, so un-favoriting doesn't empty the calendar
+  wearLogged?: boolean; // Turned into a wear event once the day passed
+}
+
+export type PlanConflictKind = 'consecutive' | 'overbooked';
+
+export interface PlanConflict {
+  kind: PlanConflictKind;
+  itemId: string;
+  dates: string[]; // The days involved, sorted
+}
+
+export interface BackupData {
+  wardrobe: ClothingItem[];
+  favorites: OutfitCardData[];
+  messages: ChatMessage[];
+  wearLog: WearEvent[];
+  plans: PlannedOutfit[];
+  memory?: ConversationMemory; // Missing from backups made before it was included
+}
+
+export type BackupImportMode = 'merge' | 'replace';
+
+export interface BackupImportReport {
+  added: { items: number; favorites: number; messages: number; wearEvents: number; plans: number };
+  duplicatesSkipped: number; // Already present with identical content
+  idsReassigned: number; // Colliding IDs given a fresh ID
+  invalidSkipped: number; // Records that failed validation
 }
 
 export enum AppTab {
   WARDROBE = 'WARDROBE',
   STYLIST = 'STYLIST',
+  OCCASION = 'OCCASION',
+  PLANNER = 'PLANNER',
   FAVORITES = 'FAVORITES',
   SHOPPING = 'SHOPPING'
 }
@@ -12,7 +12,11 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.STYLIST_PROVIDER': JSON.stringify(env.STYLIST_PROVIDER),
+        'process.env.STYLIST_IMAGE_BUDGET': JSON.stringify(env.STYLIST_IMAGE_BUDGET),
+        'process.env.WEATHER_PROVIDER': JSON.stringify(env.WEATHER_PROVIDER),
+        'process.env.WEATHER_LOCATION': JSON.stringify(env.WEATHER_LOCATION)
       },
       resolve: {
         alias: {